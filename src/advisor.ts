@@ -0,0 +1,101 @@
+import {AntGame, Place, createAnt} from './game';
+import {Ant, Bee, FastBee, LeafThrowerAnt, ScubaAnt, GuardAnt} from './ants';
+
+/**
+ * How many turns away a bee has to be from the queen to be warned about
+ */
+export const DANGER_TURNS = 3;
+
+/**
+ * The "row,col" coordinates of a place on the board
+ */
+function coordinatesOf(game:AntGame, place:Place):string {
+  let places = game.getPlaces();
+  for(let i=0; i<places.length; i++) {
+    let j = places[i].indexOf(place);
+    if(j >= 0) { return i+','+j; }
+  }
+  return undefined;
+}
+
+/**
+ * Whether the ant in a place would stop a bee getting through
+ */
+function stops(bee:Bee, place:Place):boolean {
+  if(place.getAnt() === undefined) { return false; }
+  switch(bee.getMovement().name) {
+    case 'fly':
+      return place.isGuarded();
+    case 'dig':
+      return !place.isWater();
+    default:
+      return true;
+  }
+}
+
+/**
+ * How many turns a bee needs to reach the queen if nothing stops it, or
+ * undefined if an ant stands in its way
+ */
+function turnsToQueen(bee:Bee):number {
+  let steps = 0;
+  for(let place = bee.getPlace(); place.getExit() !== undefined; place = place.getExit()) {
+    if(stops(bee, place)) { return undefined; }
+    steps++;
+  }
+  return Math.ceil(steps / (bee instanceof FastBee ? 2 : 1));
+}
+
+/**
+ * The ants in a place: the one on top, and the one under a Guard
+ */
+function antsIn(place:Place):Ant[] {
+  return [place.getAnt(), place.getGuardedAnt()].filter((ant, i, ants) => ant !== undefined && ants.indexOf(ant) === i);
+}
+
+/**
+ * Warnings about the board as it stands, most urgent first
+ */
+export function adviseOn(game:AntGame):string[] {
+  let advice:string[] = [];
+  let bees = game.getColony().getAllBees();
+
+  bees.forEach((bee) => {
+    let turns = turnsToQueen(bee);
+    if(turns !== undefined && turns <= DANGER_TURNS) {
+      let tunnel = coordinatesOf(game, bee.getPlace()).split(',')[0];
+      advice.push(`A ${bee.name} will reach the queen via tunnel ${tunnel} in ${turns} ${turns === 1 ? 'turn' : 'turns'}`);
+    }
+  });
+
+  game.getPlaces().forEach((tunnel) => tunnel.forEach((place) => antsIn(place).forEach((ant) => {
+    let at = coordinatesOf(game, place);
+    if(place.isWater() && !(ant instanceof ScubaAnt)) {
+      advice.push(`${ant.name} at ${at} is on water and will drown at the end of the turn`);
+    }
+    if(ant instanceof LeafThrowerAnt && bees.length > 0
+       && place.getClosestBee(ant.getRange()) === undefined) {
+      advice.push(`${ant.name} at ${at} is out of range of all bees`);
+    }
+  })));
+  return advice;
+}
+
+/**
+ * Warnings about deploying an ant somewhere, before it is done
+ */
+export function adviseOnDeploy(game:AntGame, antType:string, coords:string):string[] {
+  let ant = createAnt(antType);
+  let place = game.getColony().getPlace(coords);
+  if(ant === undefined || place === undefined) {
+    return [];
+  }
+  let advice:string[] = [];
+  if(place.isWater() && !(ant instanceof ScubaAnt)) {
+    advice.push(`You're deploying a ${ant.name} onto water without a Scuba: it will drown at the end of the turn`);
+  }
+  if(ant instanceof GuardAnt && place.getAnt() === undefined) {
+    advice.push('A Guard does nothing on its own: deploy it on top of another ant to take the stings for it');
+  }
+  return advice;
+}
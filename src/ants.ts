@@ -1,26 +1,105 @@
 import {AntColony, Place} from './game';
+import {Random} from './random';
+import {Boost, ActiveBoost, BoostEffect, BOOSTS} from './boosts';
+import {Upgrade, UpgradeEffect, levelFor} from './upgrades';
+import {Status, ActiveStatus, getStatus} from './statuses';
+import {Movement, getMovement} from './movements';
 
 export abstract class Insect {
   readonly name:string;
+  protected statuses:ActiveStatus[] = [];
+  private fullArmor:number;
 
-  constructor(protected armor:number, protected place:Place){}
+  constructor(protected armor:number, protected place:Place){
+    this.fullArmor = armor;
+  }
 
   getName():string { return this.name; }
   getArmor():number { return this.armor; }
+  setArmor(armor:number) { this.armor = armor; }
+
+  /**
+   * The armor this insect started out with
+   */
+  getFullArmor():number { return this.fullArmor; }
+  setFullArmor(armor:number) { this.fullArmor = armor; }
   getPlace() { return this.place; }
   setPlace(place:Place){ this.place = place; }
 
-  reduceArmor(amount:number):boolean {
-    this.armor -= amount;
+  reduceArmor(amount:number, colony:AntColony):boolean {
+    this.armor -= amount + this.getStatusEffect().armorBreak;
     if(this.armor <= 0){
-      console.log(this.toString()+' ran out of armor and expired');
+      colony.getEvents().emit('InsectExpired', {insect:this, place:this.place});
       this.place.removeInsect(this);
       return true;
     }
     return false;
   }
 
-  abstract act(colony?:AntColony):void;
+  getStatuses():ActiveStatus[] { return this.statuses; }
+  setStatuses(statuses:ActiveStatus[]) { this.statuses = statuses; }
+
+  hasStatus(name:string):boolean {
+    return this.statuses.some((active) => active.status.name === name);
+  }
+
+  isImmuneTo(status:string):boolean { return false; }
+
+  /**
+   * Puts this insect under a status for its usual number of turns, or for
+   * the given number. Giving a status it is already under adds the turns if
+   * the status stacks, and otherwise starts them over. Returns false if the
+   * insect is immune to it.
+   */
+  addStatus(name:string, turns?:number):boolean {
+    let status:Status = getStatus(name);
+    if(status === undefined || this.isImmuneTo(status.name)) {
+      return false;
+    }
+    turns = turns !== undefined ? turns : status.turns;
+    let existing = this.statuses.filter((active) => active.status === status)[0];
+    if(existing === undefined) {
+      this.statuses.push({status:status, turns:turns});
+    }
+    else if(status.stacks) {
+      existing.turns += turns;
+    }
+    else {
+      existing.turns = Math.max(existing.turns, turns);
+    }
+    return true;
+  }
+
+  /**
+   * The combined effect of all of the statuses this insect is under
+   */
+  getStatusEffect():{poison:number, stuck:boolean, slow:boolean, cold:boolean, armorBreak:number} {
+    let effect = {poison:0, stuck:false, slow:false, cold:false, armorBreak:0};
+    this.statuses.forEach((active) => {
+      effect.poison += active.status.poison || 0;
+      effect.stuck = effect.stuck || !!active.status.stuck;
+      effect.slow = effect.slow || !!active.status.slow;
+      effect.cold = effect.cold || !!active.status.cold;
+      effect.armorBreak += active.status.armorBreak || 0;
+    });
+    return effect;
+  }
+
+  /**
+   * Takes any poison damage, then counts down this insect's statuses. Returns
+   * true if the poison killed it.
+   */
+  tickStatuses(colony:AntColony):boolean {
+    let poison = this.getStatusEffect().poison;
+    this.statuses.forEach((active) => active.turns--);
+    this.statuses = this.statuses.filter((active) => active.turns > 0);
+    if(poison > 0 && this.armor > 0 && this.place !== undefined) {
+      return this.reduceArmor(poison, colony);
+    }
+    return false;
+  }
+
+  abstract act(colony?:AntColony, random?:Random):void;
 
   toString():string {
     return this.name + '('+(this.place ? this.place.name : '')+')';
@@ -30,120 +109,409 @@ export abstract class Insect {
 
 export class Bee extends Insect {
   readonly name:string = 'Bee';
-  private status:string;
+  protected movement:Movement = getMovement('walk');
 
   constructor(armor:number, private damage:number, place?:Place){
     super(armor, place);
   }
 
-  sting(ant:Ant):boolean{
-    console.log(this+ ' stings '+ant+'!');
-    return ant.reduceArmor(this.damage);
+  sting(ant:Ant, colony:AntColony):boolean{
+    colony.getEvents().emit('BeeStung', {bee:this, ant:ant, damage:this.damage});
+    return ant.reduceArmor(this.damage, colony);
   }
 
   isBlocked():boolean {
     return this.place.getAnt() !== undefined;
   }
 
-  setStatus(status:string) { this.status = status; }
+  getDamage():number { return this.damage; }
 
-  act() {
-    if(this.isBlocked()){
-      if(this.status !== 'cold') {
-        this.sting(this.place.getAnt());
-      }
+  getMovement():Movement { return this.movement; }
+  setMovement(movement:Movement) { this.movement = movement; }
+
+  /**
+   * Whether this bee can move this turn: not if it is stuck, and only every
+   * other turn if it is slow
+   */
+  canMove():boolean {
+    let slow = this.statuses.filter((active) => active.status.slow)[0];
+    return !this.getStatusEffect().stuck && (slow === undefined || slow.turns % 2 === 1);
+  }
+
+  /**
+   * Where this bee's movement takes it this turn, or undefined if it can't
+   * or won't move
+   */
+  nextPlace(colony:AntColony):Place {
+    if(this.place === undefined || this.armor <= 0 || !this.canMove()) {
+      return undefined;
     }
-    else if(this.armor > 0) {
-      if(this.status !== 'stuck'){
-        this.place.exitBee(this);
+    return this.movement.nextPlace(this, colony);
+  }
+
+  moveTo(place:Place, colony:AntColony) {
+    this.place.removeBee(this);
+    place.addBee(this);
+    place.beeEntered(this, colony);
+  }
+
+  act(colony:AntColony) {
+    let next = this.nextPlace(colony);
+    if(next !== undefined){
+      this.moveTo(next, colony);
+    }
+    else if(this.isBlocked()){
+      if(!this.getStatusEffect().cold) {
+        this.sting(this.place.getAnt(), colony);
       }
-    }    
-    this.status = undefined;
+    }
+    this.tickStatuses(colony);
   }
 }
 
 
+export class FastBee extends Bee {
+  readonly name:string = 'FastBee';
+
+  act(colony:AntColony) {
+    let moves = this.nextPlace(colony) !== undefined;
+    super.act(colony);
+    //takes a second step if the first one went through
+    let next = moves && this.place !== undefined && !this.getStatusEffect().stuck ?
+      this.movement.nextPlace(this, colony) : undefined;
+    if(next !== undefined) {
+      this.moveTo(next, colony);
+    }
+  }
+}
+
+
+export class ArmoredBee extends Bee {
+  readonly name:string = 'ArmoredBee';
+
+  isImmuneTo(status:string):boolean { return status === 'stuck'; }
+}
+
+
+/**
+ * A bee whose sting poisons the ant for a couple of turns
+ */
+export class Wasp extends Bee {
+  readonly name:string = 'Wasp';
+
+  sting(ant:Ant, colony:AntColony):boolean {
+    let expired = super.sting(ant, colony);
+    if(!expired)
+      ant.addStatus('poisoned', 2);
+    return expired;
+  }
+}
+
+
+/**
+ * A bee too big to be eaten, which has to be killed before the colony can win
+ */
+export class BossBee extends Bee {
+  readonly name:string = 'BossBee';
+
+  isImmuneTo(status:string):boolean { return status === 'stunned'; }
+}
+
+
+/**
+ * A bee that flies over ants, though a Guard still stops it
+ */
+export class Hornet extends Bee {
+  readonly name:string = 'Hornet';
+  protected movement:Movement = getMovement('fly');
+}
+
+
+/**
+ * A bee that slips into the next tunnel over when an ant is in its way
+ */
+export class ScoutBee extends Bee {
+  readonly name:string = 'ScoutBee';
+  protected movement:Movement = getMovement('switch');
+}
+
+
+/**
+ * A bee that digs under water, passing beneath anything swimming there
+ */
+export class DiggerBee extends Bee {
+  readonly name:string = 'DiggerBee';
+  protected movement:Movement = getMovement('dig');
+}
+
+
+/**
+ * A bee that heads back towards the hive once it has been badly hurt
+ */
+export class TimidBee extends Bee {
+  readonly name:string = 'TimidBee';
+  protected movement:Movement = getMovement('retreat');
+}
+
+
 export abstract class Ant extends Insect {
-  protected boost:string;
+  protected boosts:ActiveBoost[] = [];
+  protected experience:number = 0;  //bees killed
+  protected upgrades:Upgrade[] = [];
   constructor(armor:number, private foodCost:number = 0, place?:Place) {
     super(armor, place);
   }
 
   getFoodCost():number { return this.foodCost; }
-  setBoost(boost:string) { 
-    this.boost = boost; 
-      console.log(this.toString()+' is given a '+boost);
+
+  getBoosts():ActiveBoost[] { return this.boosts; }
+  setBoosts(boosts:ActiveBoost[]) { this.boosts = boosts; }
+
+  canUse(boost:Boost):boolean {
+    return boost.appliesTo.indexOf(this.name) >= 0;
+  }
+
+  /**
+   * Gives this ant a boost. Returns an error message if it can't take it.
+   */
+  addBoost(boost:Boost):string {
+    if(!this.canUse(boost)) {
+      return this.name+' ants cannot use '+boost.name;
+    }
+    let existing = this.boosts.filter((active) => active.boost.name === boost.name)[0];
+    if(existing === undefined) {
+      this.boosts.push({boost:boost, charges:boost.charges, turns:boost.turns});
+    }
+    else if(boost.stacks) {
+      if(boost.charges !== undefined)
+        existing.charges += boost.charges;
+      if(boost.turns !== undefined)
+        existing.turns += boost.turns;
+    }
+    else {
+      return 'ant already has an unused '+boost.name;
+    }
+    return undefined;
+  }
+
+  /**
+   * The combined effect of all of this ant's boosts
+   */
+  getBoostEffect():BoostEffect {
+    let effect:BoostEffect = {range:0, damage:0, statuses:[]};
+    this.boosts.forEach((active) => {
+      effect.range += active.boost.effect.range || 0;
+      effect.damage += active.boost.effect.damage || 0;
+      effect.statuses = effect.statuses.concat(active.boost.effect.statuses || []);
+      effect.spray = active.boost.effect.spray || effect.spray;
+    });
+    return effect;
+  }
+
+  /**
+   * Uses up a charge of each boost that lasts for a number of leaves
+   */
+  protected useBoosts() {
+    this.boosts.forEach((active) => {
+      if(active.charges !== undefined)
+        active.charges--;
+    });
+    this.boosts = this.boosts.filter((active) => active.charges === undefined || active.charges > 0);
+  }
+
+  getExperience():number { return this.experience; }
+  setExperience(experience:number) { this.experience = experience; }
+  getLevel():number { return levelFor(this.experience); }
+
+  /**
+   * Counts a bee this ant killed. Each level it reaches gives it 1 more armor.
+   */
+  protected gainExperience(colony:AntColony) {
+    let level = this.getLevel();
+    this.experience++;
+    if(this.getLevel() > level) {
+      this.armor++;
+      colony.getEvents().emit('AntLeveledUp', {ant:this, level:this.getLevel()});
+    }
+  }
+
+  getUpgrades():Upgrade[] { return this.upgrades; }
+  setUpgrades(upgrades:Upgrade[]) { this.upgrades = upgrades; }
+
+  canTake(upgrade:Upgrade):boolean {
+    return upgrade.appliesTo.indexOf(this.name) >= 0;
+  }
+
+  /**
+   * Upgrades this ant along a branch. It can take one upgrade per level it
+   * has reached. Returns an error message if it can't take it.
+   */
+  addUpgrade(upgrade:Upgrade):string {
+    if(!this.canTake(upgrade)) {
+      return this.name+' ants cannot take the '+upgrade.name+' upgrade';
+    }
+    if(this.upgrades.length >= this.getLevel()) {
+      return 'ant must reach level '+(this.upgrades.length+1)+' first';
+    }
+    this.upgrades.push(upgrade);
+    this.armor += upgrade.effect.armor || 0;
+    return undefined;
+  }
+
+  /**
+   * The combined effect of all of this ant's upgrades
+   */
+  getUpgradeEffect():UpgradeEffect {
+    let effect:UpgradeEffect = {range:0, damage:0, armor:0, digestion:0};
+    this.upgrades.forEach((upgrade) => {
+      effect.range += upgrade.effect.range || 0;
+      effect.damage += upgrade.effect.damage || 0;
+      effect.armor += upgrade.effect.armor || 0;
+      effect.digestion += upgrade.effect.digestion || 0;
+    });
+    return effect;
+  }
+
+  /**
+   * Counts down the boosts that last for a number of turns
+   */
+  tickBoosts() {
+    this.boosts.forEach((active) => {
+      if(active.turns !== undefined)
+        active.turns--;
+    });
+    this.boosts = this.boosts.filter((active) => active.turns === undefined || active.turns > 0);
   }
 }
 
 
+/**
+ * A kind of ant the player can deploy
+ */
+export interface AntType {
+  name:string;
+  foodCost:number;
+  armor:number;
+  icon:string;  //a single letter for the map
+  color:string; //the chalk style to draw the icon with
+  description:string;
+  create:() => Ant;
+}
+
+const registrations:{create:() => Ant, icon:string, color:string, description:string}[] = [];
+
+/**
+ * Adds a kind of ant to the registry. Its name, cost and armor are read from
+ * the ants it creates.
+ */
+export function registerAntType(create:() => Ant, icon:string, color:string, description:string) {
+  registrations.push({create:create, icon:icon, color:color, description:description});
+}
+
+/**
+ * Lists the registered kinds of ant, in the order they joined
+ */
+export function getAntTypes():AntType[] {
+  //sampled here rather than on registration, since ants can't be created
+  //until the game module has finished loading
+  return registrations.map((registration) => {
+    let sample = registration.create();
+    return {name:sample.name, foodCost:sample.getFoodCost(), armor:sample.getArmor(),
+            icon:registration.icon, color:registration.color,
+            description:registration.description, create:registration.create};
+  });
+}
+
+/**
+ * Finds the registered kind of ant with the given name (case-insensitive)
+ */
+export function getAntType(name:string):AntType {
+  return getAntTypes().filter((type) => type.name.toLowerCase() === name.toLowerCase())[0];
+}
+
+
 export class GrowerAnt extends Ant {
   readonly name:string = "Grower";
   constructor() {
     super(1,1)
   }
 
-  act(colony:AntColony) {
-    let roll = Math.random();
+  act(colony:AntColony, random:Random) {
+    let roll = random.next();
     if(roll < 0.6){
       colony.increaseFood(1);
-    } else if(roll < 0.7) {
-      colony.addBoost('FlyingLeaf');
-    } else if(roll < 0.8) {
-      colony.addBoost('StickyLeaf');
-    } else if(roll < 0.9) {
-      colony.addBoost('IcyLeaf');
-    } else if(roll < 0.95) {
-      colony.addBoost('BugSpray');
+      return;
+    }
+    let chance = 0.6;
+    for(let boost of BOOSTS) {
+      chance += boost.findChance;
+      if(roll < chance) {
+        colony.addBoost(boost.name);
+        return;
+      }
     }
   }  
 }
+registerAntType(() => new GrowerAnt(), 'G', 'green', 'Gathers food, and sometimes finds boosts.');
 
 
-export class ThrowerAnt extends Ant {
-  readonly name:string = "Thrower";
+/**
+ * An ant that throws leaves at the closest bee in range, or sprays bug
+ * repellant when given a BugSpray
+ */
+export abstract class LeafThrowerAnt extends Ant {
   private damage:number = 1;
-
-  constructor() {
-    super(1,4);
+  private range:number = 3;
+
+  /**
+   * How many places away this ant can hit a bee, with its boosts, its
+   * upgrades and the ground it stands on
+   */
+  getRange():number {
+    return this.range + this.getBoostEffect().range + this.getUpgradeEffect().range + (this.place.getTerrain().range || 0);
   }
 
-  act() {
-    if(this.boost !== 'BugSpray'){
-      let target;
-      if(this.boost === 'FlyingLeaf')
-        target = this.place.getClosestBee(5);
-      else
-        target = this.place.getClosestBee(3);
+  act(colony:AntColony) {
+    let effect = this.getBoostEffect();
+    let upgrade = this.getUpgradeEffect();
+    if(!effect.spray){
+      let target = this.place.getClosestBee(this.getRange());
 
       if(target){
-        console.log(this + ' throws a leaf at '+target);
-        target.reduceArmor(this.damage);
-    
-        if(this.boost === 'StickyLeaf'){
-          target.setStatus('stuck');
-          console.log(target + ' is stuck!');
-        }
-        if(this.boost === 'IcyLeaf') {
-          target.setStatus('cold');
-          console.log(target + ' is cold!');
-        }
-        this.boost = undefined;
+        let damage = this.damage + effect.damage + upgrade.damage;
+        let statuses = effect.statuses.filter((status) => !target.isImmuneTo(status));
+        colony.getEvents().emit('LeafThrown', {ant:this, target:target, damage:damage, statuses:statuses});
+        if(target.reduceArmor(damage, colony))
+          this.gainExperience(colony);
+        else
+          statuses.forEach((status) => target.addStatus(status));
+        this.useBoosts();
       }
     }
     else {
-      console.log(this + ' sprays bug repellant everywhere!');
+      colony.getEvents().emit('BugSprayed', {ant:this});
+      this.useBoosts();
       let target = this.place.getClosestBee(0);
       while(target){
-        target.reduceArmor(10);
+        target.reduceArmor(10, colony);
         target = this.place.getClosestBee(0);
       }
-      this.reduceArmor(10);
+      this.reduceArmor(10, colony);
     }
   }
 }
 
 
+export class ThrowerAnt extends LeafThrowerAnt {
+  readonly name:string = "Thrower";
+
+  constructor() {
+    super(1,4);
+  }
+}
+registerAntType(() => new ThrowerAnt(), 'T', 'red', 'Throws leaves at bees up to 3 places away.');
+
+
 export class EaterAnt extends Ant {
   readonly name:string = "Eater";
   private turnsEating:number = 0;
@@ -156,20 +524,33 @@ export class EaterAnt extends Ant {
     return this.stomach.getBees().length > 0;
   }
 
-  act() {
-    console.log("eating: "+this.turnsEating);
+  getTurnsEating():number { return this.turnsEating; }
+  getEaten():Bee { return this.stomach.getBees()[0]; }
+
+  /**
+   * Puts back the digestion progress from a saved game
+   */
+  restoreDigestion(turnsEating:number, eaten?:Bee) {
+    this.stomach.removeAllBees();
+    if(eaten)
+      this.stomach.addBee(eaten);
+    this.turnsEating = turnsEating;
+  }
+
+  act(colony:AntColony) {
     if(this.turnsEating == 0){
-      console.log("try to eat");
-      let target = this.place.getClosestBee(0);
+      let target = this.place.getBees().filter((bee) => !(bee instanceof BossBee))[0];
       if(target) {
-        console.log(this + ' eats '+target+'!');
+        colony.getEvents().emit('BeeEaten', {ant:this, bee:target});
         this.place.removeBee(target);
         this.stomach.addBee(target);
         this.turnsEating = 1;
       }
     } else {
-      if(this.turnsEating > 3){
-        this.stomach.removeBee(this.stomach.getBees()[0]);
+      if(this.turnsEating > 3 - this.getUpgradeEffect().digestion){
+        let eaten = this.stomach.getBees()[0];
+        this.stomach.removeBee(eaten);
+        colony.getEvents().emit('BeeDigested', {ant:this, bee:eaten});
         this.turnsEating = 0;
       } 
       else 
@@ -177,15 +558,14 @@ export class EaterAnt extends Ant {
     }
   }  
 
-  reduceArmor(amount:number):boolean {
+  reduceArmor(amount:number, colony:AntColony):boolean {
     this.armor -= amount;
-    console.log('armor reduced to: '+this.armor);
     if(this.armor > 0){
       if(this.turnsEating == 1){
         let eaten = this.stomach.getBees()[0];
         this.stomach.removeBee(eaten);
         this.place.addBee(eaten);
-        console.log(this + ' coughs up '+eaten+'!');
+        colony.getEvents().emit('BeeCoughedUp', {ant:this, bee:eaten});
         this.turnsEating = 3;
       }
     }
@@ -194,57 +574,24 @@ export class EaterAnt extends Ant {
         let eaten = this.stomach.getBees()[0];
         this.stomach.removeBee(eaten);
         this.place.addBee(eaten);
-        console.log(this + ' coughs up '+eaten+'!');
+        colony.getEvents().emit('BeeCoughedUp', {ant:this, bee:eaten});
       }
-      return super.reduceArmor(amount);
+      return super.reduceArmor(amount, colony);
     }
     return false;
   }
 }
+registerAntType(() => new EaterAnt(), 'E', 'magenta', 'Swallows a bee whole, then spends a few turns digesting it.');
 
 
-export class ScubaAnt extends Ant {
+export class ScubaAnt extends LeafThrowerAnt {
   readonly name:string = "Scuba";
-  private damage:number = 1;
 
   constructor() {
     super(1,5)
   }
-
-  act() {
-    if(this.boost !== 'BugSpray'){
-      let target;
-      if(this.boost === 'FlyingLeaf')
-        target = this.place.getClosestBee(5);
-      else
-        target = this.place.getClosestBee(3);
-
-      if(target){
-        console.log(this + ' throws a leaf at '+target);
-        target.reduceArmor(this.damage);
-    
-        if(this.boost === 'StickyLeaf'){
-          target.setStatus('stuck');
-          console.log(target + ' is stuck!');
-        }
-        if(this.boost === 'IcyLeaf') {
-          target.setStatus('cold');
-          console.log(target + ' is cold!');
-        }
-        this.boost = undefined;
-      }
-    }
-    else {
-      console.log(this + ' sprays bug repellant everywhere!');
-      let target = this.place.getClosestBee(0);
-      while(target){
-        target.reduceArmor(10);
-        target = this.place.getClosestBee(0);
-      }
-      this.reduceArmor(10);
-    }
-  }
 }
+registerAntType(() => new ScubaAnt(), 'S', 'cyan', 'Throws leaves like a Thrower, and can be deployed in water.');
 
 
 export class GuardAnt extends Ant {
@@ -260,3 +607,4 @@ export class GuardAnt extends Ant {
 
   act() {}
 }
+registerAntType(() => new GuardAnt(), 'x', 'underline', 'Stands over another ant and takes the stings for it.');
@@ -0,0 +1,56 @@
+/**
+ * What a boost does to the ant using it
+ */
+export interface BoostEffect {
+  range?:number;   //extra places a leaf can reach
+  damage?:number;  //extra damage a leaf does
+  statuses?:string[]; //statuses given to the bee that is hit
+  spray?:boolean;  //sprays every bee in the ant's place instead, killing the ant
+}
+
+/**
+ * A kind of boost that the colony can find and give to its ants
+ */
+export interface Boost {
+  name:string;
+  description:string;
+  appliesTo:string[]; //names of the ant types that can use it
+  charges?:number;    //how many leaves it lasts for
+  turns?:number;      //how many turns it lasts for
+  stacks:boolean;     //whether giving it again to an ant adds to what's left
+  findChance:number;  //the chance a Grower finds one on its turn; at 0, only a scenario can give it
+  effect:BoostEffect;
+}
+
+/**
+ * A boost that has been given to an ant, with what is left of it
+ */
+export interface ActiveBoost {
+  boost:Boost;
+  charges?:number;
+  turns?:number;
+}
+
+export const BOOSTS:Boost[] = [
+  {name:'FlyingLeaf', description:'The next leaf flies 2 places further.',
+   appliesTo:['Thrower','Scuba'], charges:1, stacks:true, findChance:0.1, effect:{range:2}},
+  {name:'StickyLeaf', description:'The next leaf sticks the bee in place for a turn.',
+   appliesTo:['Thrower','Scuba'], charges:1, stacks:false, findChance:0.1, effect:{statuses:['stuck']}},
+  {name:'IcyLeaf', description:'The next leaf chills the bee so it cannot sting for a turn.',
+   appliesTo:['Thrower','Scuba'], charges:1, stacks:false, findChance:0.1, effect:{statuses:['cold']}},
+  {name:'BugSpray', description:'Kills every bee in the ant\'s place, and the ant too.',
+   appliesTo:['Thrower','Scuba'], charges:1, stacks:false, findChance:0.05, effect:{spray:true}},
+  {name:'PoisonLeaf', description:'The next leaf poisons the bee, which takes 1 damage a turn for 3 turns.',
+   appliesTo:['Thrower','Scuba'], charges:1, stacks:false, findChance:0, effect:{statuses:['poisoned']}},
+  {name:'SyrupLeaf', description:'The next leaf slows the bee, which moves only every other turn for 4 turns.',
+   appliesTo:['Thrower','Scuba'], charges:1, stacks:false, findChance:0, effect:{statuses:['slow']}},
+  {name:'HeavyLeaf', description:'The next leaf stuns the bee for a turn and breaks its armor for 3.',
+   appliesTo:['Thrower','Scuba'], charges:1, stacks:false, findChance:0, effect:{statuses:['stunned', 'armor-broken']}}
+];
+
+/**
+ * Finds the boost with the given name (case-insensitive)
+ */
+export function getBoost(name:string):Boost {
+  return BOOSTS.filter((boost) => boost.name.toLowerCase() === name.toLowerCase())[0];
+}
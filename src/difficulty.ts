@@ -0,0 +1,60 @@
+import {Scenario} from './scenario';
+
+/**
+ * A preset for generating a scenario of a given difficulty
+ */
+export interface Difficulty {
+  name:string;
+  tunnels:number;
+  tunnelLength:number;
+  moatFrequency:number;
+  food:number;
+  beeArmor:number;
+  beeDamage:number;
+  firstWave:number;    //the turn of the first wave
+  waveInterval:number; //turns between waves
+  waveCount:number;
+  beesPerWave:number;  //bees in the first wave; each later wave adds waveGrowth more
+  waveGrowth:number;
+}
+
+export const DIFFICULTIES:Difficulty[] = [
+  {name:'Easy', tunnels:2, tunnelLength:8, moatFrequency:0, food:6, beeArmor:2, beeDamage:1,
+   firstWave:4, waveInterval:4, waveCount:4, beesPerWave:1, waveGrowth:0},
+  {name:'Normal', tunnels:3, tunnelLength:8, moatFrequency:4, food:4, beeArmor:3, beeDamage:1,
+   firstWave:3, waveInterval:3, waveCount:6, beesPerWave:1, waveGrowth:0.5},
+  {name:'Hard', tunnels:3, tunnelLength:8, moatFrequency:3, food:2, beeArmor:3, beeDamage:1,
+   firstWave:2, waveInterval:2, waveCount:8, beesPerWave:1, waveGrowth:0.5},
+  {name:'Insane', tunnels:4, tunnelLength:8, moatFrequency:3, food:2, beeArmor:4, beeDamage:2,
+   firstWave:2, waveInterval:2, waveCount:10, beesPerWave:2, waveGrowth:1}
+];
+
+/**
+ * Finds the difficulty with the given name (case-insensitive)
+ */
+export function getDifficulty(name:string):Difficulty {
+  return DIFFICULTIES.filter((difficulty) => difficulty.name.toLowerCase() === name.toLowerCase())[0];
+}
+
+/**
+ * Builds the scenario for a difficulty preset
+ */
+export function scenarioFor(difficulty:Difficulty):Scenario {
+  let waves:{turn:number, bees:number}[] = [];
+  for(let i=0; i<difficulty.waveCount; i++) {
+    waves.push({
+      turn: difficulty.firstWave + i*difficulty.waveInterval,
+      bees: Math.floor(difficulty.beesPerWave + i*difficulty.waveGrowth)
+    });
+  }
+
+  return {
+    name: difficulty.name,
+    food: difficulty.food,
+    tunnels: difficulty.tunnels,
+    tunnelLength: difficulty.tunnelLength,
+    moatFrequency: difficulty.moatFrequency,
+    bees: {armor:difficulty.beeArmor, damage:difficulty.beeDamage},
+    waves: waves
+  };
+}
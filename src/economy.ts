@@ -0,0 +1,27 @@
+/**
+ * The rules for how the colony gains and spends food, besides what ants cost
+ * to deploy and what Growers gather. Each rule is off at 0.
+ */
+export interface Economy {
+  refund:number;  //the share of its cost an ant sells back for when removed, scaled by the armor it has left
+  income:number;  //food the queen makes every turn
+  upkeep:number;  //food every deployed ant costs each turn
+  bounty:number;  //food for every bee killed
+}
+
+/**
+ * The original rules, where food only comes from Growers
+ */
+export const CLASSIC_ECONOMY:Economy = {refund:0, income:0, upkeep:0, bounty:0};
+
+/**
+ * The economy given by a scenario, with the rules it leaves out switched off
+ */
+export function economyOf(rules:{refund?:number, income?:number, upkeep?:number, bounty?:number} = {}):Economy {
+  return {
+    refund: rules.refund || 0,
+    income: rules.income || 0,
+    upkeep: rules.upkeep || 0,
+    bounty: rules.bounty || 0
+  };
+}
@@ -0,0 +1,55 @@
+import {Insect, Ant, Bee} from './ants';
+import {Place} from './game';
+
+/**
+ * The events that happen during a game, keyed by event type
+ */
+export interface GameEventMap {
+  AntDeployed: {ant:Ant, place:Place};
+  AntRemoved: {ant:Ant, place:Place, refund:number};
+  AntDrowned: {ant:Ant, place:Place};
+  BeeStung: {bee:Bee, ant:Ant, damage:number};
+  LeafThrown: {ant:Ant, target:Bee, damage:number, statuses:string[]};
+  BugSprayed: {ant:Ant};
+  InsectExpired: {insect:Insect, place:Place};
+  BeeEaten: {ant:Ant, bee:Bee};
+  BeeCoughedUp: {ant:Ant, bee:Bee};
+  BeeDigested: {ant:Ant, bee:Bee};
+  FoodCollected: {amount:number}; //income less upkeep, if not 0
+  BoostFound: {boost:string};
+  BoostApplied: {ant:Ant, boost:string};
+  AntLeveledUp: {ant:Ant, level:number};
+  AntUpgraded: {ant:Ant, upgrade:string};
+  WaveInvaded: {turn:number, bees:Bee[]};
+  TurnEnded: {turn:number};
+  CommandPerformed: {command:string}; //a move by the player, as the REPL command that makes it
+}
+
+export type GameEventType = keyof GameEventMap;
+
+/**
+ * A simple typed event emitter, through which the game reports what happens
+ */
+export class GameEvents {
+  private listeners:{[type:string]:((event:any) => void)[]} = {};
+
+  on<K extends GameEventType>(type:K, listener:(event:GameEventMap[K]) => void):GameEvents {
+    if(this.listeners[type] === undefined) {
+      this.listeners[type] = [];
+    }
+    this.listeners[type].push(listener);
+    return this;
+  }
+
+  off<K extends GameEventType>(type:K, listener:(event:GameEventMap[K]) => void):GameEvents {
+    let listeners = this.listeners[type];
+    if(listeners !== undefined && listeners.indexOf(listener) >= 0) {
+      listeners.splice(listeners.indexOf(listener), 1);
+    }
+    return this;
+  }
+
+  emit<K extends GameEventType>(type:K, event:GameEventMap[K]) {
+    (this.listeners[type] || []).slice().forEach((listener) => listener(event));
+  }
+}
@@ -1,20 +1,77 @@
-import {Insect, Bee, Ant, GrowerAnt, ThrowerAnt, EaterAnt, ScubaAnt, GuardAnt} from './ants';
+import {Insect, Bee, FastBee, ArmoredBee, Wasp, BossBee, Hornet, ScoutBee, DiggerBee, TimidBee, Ant, GrowerAnt, ScubaAnt, GuardAnt, getAntType} from './ants';
+import {Random} from './random';
+import {GameEvents} from './events';
+import {getBoost} from './boosts';
+import {getUpgrade} from './upgrades';
+import {Economy, CLASSIC_ECONOMY} from './economy';
+import {Terrain, getTerrain} from './terrain';
+import {getStatus} from './statuses';
+import {SavedGame, saveGame, loadGame} from './save';
 
 class Place {
   protected ant:Ant;
   protected guard:GuardAnt;
   protected bees:Bee[] = [];
+  private exits:Place[] = [];
+  private entrances:Place[] = [];
 
   constructor(readonly name:string,
-              protected readonly water = false,
-              private exit?:Place, 
-              private entrance?:Place) {}
+              protected readonly terrain:Terrain = getTerrain('tunnel'),
+              exit?:Place, 
+              entrance?:Place) {
+    if(exit) this.exits.push(exit);
+    if(entrance) this.entrances.push(entrance);
+  }
+
+  /**
+   * The place a bee here moves on to: where the tunnel forks, the branch
+   * with the shortest way to the queen (the first listed, if tied)
+   */
+  getExit():Place {
+    let best:Place;
+    this.exits.forEach((exit) => {
+      if(best === undefined || exit.distanceToQueen() < best.distanceToQueen())
+        best = exit;
+    });
+    return best;
+  }
+
+  getExits():Place[] { return this.exits; }
 
-  getExit():Place { return this.exit; }
+  setExits(exits:Place[]) {
+    this.exits.forEach((exit) => exit.removeEntrance(this));
+    this.exits = exits.slice();
+    this.exits.forEach((exit) => exit.addEntrance(this));
+  }
+
+  getEntrances():Place[] { return this.entrances; }
 
-  setEntrance(place:Place){ this.entrance = place; }
+  setEntrance(place:Place){ this.addEntrance(place); }
 
-  isWater():boolean { return this.water; }
+  addEntrance(place:Place){
+    if(this.entrances.indexOf(place) < 0)
+      this.entrances.push(place);
+  }
+
+  removeEntrance(place:Place){
+    let index = this.entrances.indexOf(place);
+    if(index >= 0)
+      this.entrances.splice(index, 1);
+  }
+
+  /**
+   * The fewest moves from here to a place with no exit (the queen)
+   */
+  distanceToQueen(visited:Place[] = []):number {
+    if(this.exits.length === 0) { return 0; }
+    if(visited.indexOf(this) >= 0) { return Infinity; } //a loop never gets there
+    let distances = this.exits.map((exit) => exit.distanceToQueen(visited.concat([this])));
+    return 1 + Math.min.apply(Math, distances);
+  }
+
+  getTerrain():Terrain { return this.terrain; }
+
+  isWater():boolean { return !!this.terrain.water; }
 
   getAnt():Ant { 
     if(this.guard) 
@@ -27,15 +84,31 @@ class Place {
     return this.ant;
   }
 
+  isGuarded():boolean { return this.guard !== undefined; }
+
   getBees():Bee[] { return this.bees; }
 
+  /**
+   * Finds the nearest bee, searching back through every entrance (and so
+   * every branch) at once
+   */
   getClosestBee(maxDistance:number, minDistance:number = 0):Bee {
-		let p:Place = this;
-		for(let dist = 0; p!==undefined && dist <= maxDistance; dist++) {
-			if(dist >= minDistance && p.bees.length > 0) {
-				return p.bees[0];
-      }
-			p = p.entrance;
+		let frontier:Place[] = [this];
+		let visited:Place[] = [this];
+		for(let dist = 0; frontier.length > 0 && dist <= maxDistance; dist++) {
+			for(let p of frontier) {
+				if(dist >= minDistance && p.bees.length > 0) {
+					return p.bees[0];
+				}
+			}
+			let next:Place[] = [];
+			frontier.forEach((p) => p.entrances.forEach((entrance) => {
+				if(visited.indexOf(entrance) < 0) {
+					visited.push(entrance);
+					next.push(entrance);
+				}
+			}));
+			frontier = next;
 		}
 		return undefined;
   }
@@ -90,57 +163,131 @@ class Place {
 
   exitBee(bee:Bee):void {
     this.removeBee(bee);
-    this.exit.addBee(bee);  
+    this.getExit().addBee(bee);  
+  }
+
+  /**
+   * Lets the ground here act on a bee that has just come in, either by
+   * moving on its own turn or by invading from the hive
+   */
+  beeEntered(bee:Bee, colony:AntColony, ownTurn:boolean = true) {
+    //+1 turn on the bee's own turn, since statuses count down at the end of it
+    let extra = ownTurn ? 1 : 0;
+    (this.terrain.statuses || []).forEach((status) => bee.addStatus(status, getStatus(status).turns+extra));
+    if(this.terrain.thorns) {
+      bee.reduceArmor(this.terrain.thorns, colony);
+    }
   }
 
   removeInsect(insect:Insect) {
-    if(insect instanceof Ant){
-      this.removeAnt();
+    if(insect === this.guard){
+      this.guard = undefined;
+    }
+    else if(insect === this.ant){ //an ant under a Guard goes, and leaves the Guard
+      this.ant = undefined;
     }
     else if(insect instanceof Bee){
       this.removeBee(insect);
     }
   }
 
-  act() {
-    if(this.water){
+  act(colony:AntColony) {
+    if(this.isWater()){
       if(this.guard){
-        this.removeAnt();
+        this.drownAnt(colony);
       }
       if(!(this.ant instanceof ScubaAnt)){
-        this.removeAnt();
+        this.drownAnt(colony);
       }
     }
   }
+
+  private drownAnt(colony:AntColony) {
+    let ant = this.removeAnt();
+    if(ant !== undefined){
+      colony.getEvents().emit('AntDrowned', {ant:ant, place:this});
+    }
+  }
 }
 
 
 class Hive extends Place {
   private waves:{[index:number]:Bee[]} = {}
+  private waveEntrances:{[index:number]:number[]} = {} //chosen entrances, by attack turn
 
   constructor(private beeArmor:number, private beeDamage:number){
     super('Hive');
   }
 
-  addWave(attackTurn:number, numBees:number):Hive {
+  getBeeArmor():number { return this.beeArmor; }
+  getBeeDamage():number { return this.beeDamage; }
+
+  getWaves():{[index:number]:Bee[]} { return this.waves; }
+  getWaveEntrances():{[index:number]:number[]} { return this.waveEntrances; }
+
+  /**
+   * Adds a wave of plain bees, or of a mix of species given as counts by
+   * species name (e.g. `{Bee:3, Wasp:1}`)
+   */
+  addWave(attackTurn:number, bees:number|{[species:string]:number}):Hive {
+    let composition:{[species:string]:number} = typeof bees === 'number' ? {Bee:bees} : bees;
     let wave:Bee[] = [];
-    for(let i=0; i<numBees; i++) {
-      let bee = new Bee(this.beeArmor, this.beeDamage, this);
-      this.addBee(bee);
-      wave.push(bee);
+    Object.keys(composition).forEach((species) => {
+      for(let i=0; i<composition[species]; i++) {
+        wave.push(this.spawnBee(species));
+      }
+    });
+    return this.addWaveOf(attackTurn, wave);
+  }
+
+  /**
+   * Creates a bee of the given species, with stats scaled from the hive's
+   * base armor and damage
+   */
+  spawnBee(species:string):Bee {
+    let armor = this.beeArmor;
+    let damage = this.beeDamage;
+    switch(species.toLowerCase()) {
+      case "wasp":
+        damage *= 2; break;
+      case "bossbee":
+        armor *= 3; damage *= 2; break;
+    }
+    let bee = createBee(species, armor, damage);
+    if(bee === undefined) {
+      throw new Error('unknown bee species '+species);
+    }
+    return bee;
+  }
+
+  /**
+   * Adds a wave of bees. Each bee can be given the index of the colony
+   * entrance it comes in at; the rest come in at random entrances.
+   */
+  addWaveOf(attackTurn:number, wave:Bee[], entrances:number[] = []):Hive {
+    let earlier = this.waves[attackTurn] || [];
+    let earlierEntrances = this.waveEntrances[attackTurn] || [];
+    wave.forEach((bee) => this.addBee(bee));
+    this.waves[attackTurn] = earlier.concat(wave);
+    if(earlierEntrances.length > 0 || entrances.length > 0) {
+      let padded = earlierEntrances.slice();
+      while(padded.length < earlier.length) { padded.push(null); } //keep them lined up with their bees
+      this.waveEntrances[attackTurn] = padded.concat(entrances);
     }
-    this.waves[attackTurn] = wave;
     return this;
   }
   
-  invade(colony:AntColony, currentTurn:number): Bee[]{
+  invade(colony:AntColony, currentTurn:number, random:Random): Bee[]{
     if(this.waves[currentTurn] !== undefined) {
-      this.waves[currentTurn].forEach((bee) => {
+      let chosen = this.waveEntrances[currentTurn] || [];
+      this.waves[currentTurn].forEach((bee, i) => {
         this.removeBee(bee);
         let entrances:Place[] = colony.getEntrances();
-        let randEntrance:number = Math.floor(Math.random()*entrances.length);
+        let randEntrance:number = typeof chosen[i] === 'number' ? chosen[i] : random.nextInt(entrances.length);
         entrances[randEntrance].addBee(bee);
+        entrances[randEntrance].beeEntered(bee, colony, false);
       });
+      colony.getEvents().emit('WaveInvaded', {turn:currentTurn, bees:this.waves[currentTurn]});
       return this.waves[currentTurn];
     }
     else{
@@ -150,14 +297,32 @@ class Hive extends Place {
 }
 
 
+/**
+ * Changes to the usual straight tunnels of a colony. Places are given as
+ * "row,col" coordinates, or "queen" for the Ant Queen.
+ */
+interface ColonyLayout {
+  exits?:{[coords:string]:string[]}; //where bees go from a place; several for a fork
+  entrances?:string[];               //where bees come in (instead of the tunnel ends)
+}
+
+
 class AntColony {
   private food:number;
   private places:Place[][] = [];
   private beeEntrances:Place[] = [];
   private queenPlace:Place = new Place('Ant Queen');
   private boosts:{[index:string]:number} = {'FlyingLeaf':1,'StickyLeaf':1,'IcyLeaf':1,'BugSpray':0}
-
-  constructor(startingFood:number, numTunnels:number, tunnelLength:number, moatFrequency=0){
+  private events:GameEvents = new GameEvents();
+  private layout:ColonyLayout = {exits:{}};
+  private economy:Economy = CLASSIC_ECONOMY;
+
+  /**
+   * Digs the tunnels. Terrain other than plain tunnel is given by "row,col"
+   * coordinates; throws an Error if it names an unknown terrain.
+   */
+  constructor(startingFood:number, numTunnels:number, tunnelLength:number, moatFrequency=0, waterPlaces:string[]=[],
+              terrain:{[coords:string]:string}={}){
     this.food = startingFood;
 
     let prev:Place;
@@ -168,13 +333,23 @@ class AntColony {
 			for(let step=0; step < tunnelLength; step++)
 			{
         let typeName = 'tunnel';
+        let locationId:string = tunnel+','+step;
         if(moatFrequency !== 0 && (step+1)%moatFrequency === 0){
           typeName = 'water';
 				}
+        if(waterPlaces.indexOf(locationId) >= 0){
+          typeName = 'water';
+        }
+        if(terrain[locationId] !== undefined){
+          typeName = terrain[locationId];
+        }
+        let ground = getTerrain(typeName);
+        if(ground === undefined){
+          throw new Error('unknown terrain '+typeName);
+        }
 				
 				prev = curr;
-        let locationId:string = tunnel+','+step;
-        curr = new Place(typeName+'['+locationId+']', typeName=='water', prev);
+        curr = new Place(ground.name+'['+locationId+']', ground, prev);
         prev.setEntrance(curr);
 				this.places[tunnel][step] = curr;
 			}
@@ -184,31 +359,134 @@ class AntColony {
 
   getFood():number { return this.food; }
 
+  getEvents():GameEvents { return this.events; }
+  setEvents(events:GameEvents) { this.events = events; }
+
   increaseFood(amount:number):void { this.food += amount; }
 
+  getEconomy():Economy { return this.economy; }
+  setEconomy(economy:Economy) { this.economy = economy; }
+
+  /**
+   * How much food the colony will gain (or, if negative, lose) at the end
+   * of the turn from the queen's income and the ants' upkeep, before
+   * whatever Growers gather
+   */
+  getFoodPerTurn():number {
+    let ants = 0;
+    this.places.forEach((tunnel) => tunnel.forEach((place) => {
+      if(place.getAnt() !== undefined) { ants++; }
+      if(place.isGuarded() && place.getGuardedAnt() !== undefined) { ants++; }
+    }));
+    return this.economy.income - this.economy.upkeep*ants;
+  }
+
+  /**
+   * Takes in the queen's income and pays the ants' upkeep. Food never
+   * drops below 0.
+   */
+  collectFood() {
+    let change = this.getFoodPerTurn();
+    if(change !== 0) {
+      this.food = Math.max(0, this.food + change);
+      this.events.emit('FoodCollected', {amount:change});
+    }
+  }
+
+  /**
+   * The food an ant sells back for when removed: its refund share of what
+   * it cost, less for the armor it has lost
+   */
+  refundFor(ant:Ant):number {
+    let health = Math.min(1, ant.getArmor() / ant.getFullArmor());
+    return Math.floor(ant.getFoodCost() * this.economy.refund * health);
+  }
+
   getPlaces():Place[][] { return this.places; }
 
+  /**
+   * The terrain of every place that isn't plain tunnel, by "row,col" coordinates
+   */
+  getTerrain():{[coords:string]:string} {
+    let terrain:{[coords:string]:string} = {};
+    this.places.forEach((tunnel, i) => tunnel.forEach((place, j) => {
+      if(place.getTerrain().name !== 'tunnel')
+        terrain[i+','+j] = place.getTerrain().name;
+    }));
+    return terrain;
+  }
+
+  /**
+   * Whether the colony has nests, so that Growers can only be deployed on them
+   */
+  hasNests():boolean {
+    return this.places.some((tunnel) => tunnel.some((place) => !!place.getTerrain().nest));
+  }
+
   getEntrances():Place[] { return this.beeEntrances; }
 
   getQueenPlace():Place { return this.queenPlace; }
 
+  /**
+   * Finds the place at "row,col" coordinates (or "queen"), or returns
+   * undefined if there is no such place
+   */
+  getPlace(coords:string):Place {
+    if(coords === 'queen') { return this.queenPlace; }
+    let [row, col] = coords.split(',');
+    return (this.places[row] || [])[col];
+  }
+
+  getLayout():ColonyLayout { return this.layout; }
+
+  /**
+   * Reshapes the tunnels into forks and junctions. Throws an Error if the
+   * layout names a place that doesn't exist.
+   */
+  setLayout(layout:ColonyLayout) {
+    let placeAt = (coords:string) => {
+      let place = this.getPlace(coords);
+      if(place === undefined) {
+        throw new Error('no place at '+coords);
+      }
+      return place;
+    };
+    Object.keys(layout.exits || {}).forEach((coords) => {
+      placeAt(coords).setExits(layout.exits[coords].map(placeAt));
+      this.layout.exits[coords] = layout.exits[coords].slice();
+    });
+    if(layout.entrances !== undefined) {
+      this.beeEntrances = layout.entrances.map(placeAt);
+      this.layout.entrances = layout.entrances.slice();
+    }
+  }
+
   queenHasBees():boolean { return this.queenPlace.getBees().length > 0; }
 
   getBoosts():{[index:string]:number} { return this.boosts; }
 
+  setBoosts(boosts:{[index:string]:number}) {
+    this.boosts = {}; //a copy, so that spending boosts can't change a saved game
+    Object.keys(boosts).forEach((boost) => this.boosts[boost] = boosts[boost]);
+  }
+
   addBoost(boost:string){
     if(this.boosts[boost] === undefined){
       this.boosts[boost] = 0;
     }
     this.boosts[boost] = this.boosts[boost]+1;
-    console.log('Found a '+boost+'!');
+    this.events.emit('BoostFound', {boost:boost});
   }
 
   deployAnt(ant:Ant, place:Place):string {
+    if(ant instanceof GrowerAnt && !place.getTerrain().nest && this.hasNests()){
+      return 'Growers can only be deployed on a nest';
+    }
     if(this.food >= ant.getFoodCost()){
       let success = place.addAnt(ant);
       if(success){
         this.food -= ant.getFoodCost();
+        this.events.emit('AntDeployed', {ant:ant, place:place});
         return undefined;
       }
       return 'tunnel already occupied';
@@ -217,42 +495,85 @@ class AntColony {
   }
 
   removeAnt(place:Place){
-    place.removeAnt();
+    let ant = place.removeAnt();
+    if(ant !== undefined){
+      let refund = this.refundFor(ant);
+      this.food += refund;
+      this.events.emit('AntRemoved', {ant:ant, place:place, refund:refund});
+    }
   }
 
-  applyBoost(boost:string, place:Place):string {
-    if(this.boosts[boost] === undefined || this.boosts[boost] < 1) {
+  applyBoost(boostName:string, place:Place):string {
+    let boost = getBoost(boostName);
+    if(boost === undefined || this.boosts[boost.name] === undefined || this.boosts[boost.name] < 1) {
       return 'no such boost';
     }
     let ant:Ant = place.getAnt();
     if(!ant) {
       return 'no Ant at location' 
     }
-    ant.setBoost(boost);
+    if(!ant.canUse(boost) && place.getGuardedAnt() !== undefined) {
+      ant = place.getGuardedAnt(); //pass it under the guard
+    }
+    let error = ant.addBoost(boost);
+    if(error) {
+      return error;
+    }
+    this.boosts[boost.name]--;
+    this.events.emit('BoostApplied', {ant:ant, boost:boost.name});
+    return undefined;
+  }
+
+  upgradeAnt(upgradeName:string, place:Place):string {
+    let upgrade = getUpgrade(upgradeName);
+    if(upgrade === undefined) {
+      return 'no such upgrade';
+    }
+    let ant:Ant = place.getAnt();
+    if(!ant) {
+      return 'no Ant at location'
+    }
+    if(!ant.canTake(upgrade) && place.getGuardedAnt() !== undefined) {
+      ant = place.getGuardedAnt(); //pass it under the guard
+    }
+    if(upgrade.foodCost > this.food) {
+      return 'not enough food';
+    }
+    let error = ant.addUpgrade(upgrade);
+    if(error) {
+      return error;
+    }
+    this.food -= upgrade.foodCost;
+    this.events.emit('AntUpgraded', {ant:ant, upgrade:upgrade.name});
     return undefined;
   }
 
-  antsAct() {
+  antsAct(random:Random) {
     this.getAllAnts().forEach((ant) => {
       if(ant instanceof GuardAnt) {
         let guarded = ant.getGuarded();
-        if(guarded)
-          guarded.act(this);
+        if(guarded) {
+          guarded.act(this, random);
+          guarded.tickBoosts();
+          guarded.tickStatuses(this);
+        }
       }
-      ant.act(this);
+      ant.act(this, random);
+      ant.tickBoosts();
+      ant.tickStatuses(this);
     });    
   }
 
   beesAct() {
     this.getAllBees().forEach((bee) => {
-      bee.act();
+      bee.act(this);
     });
   }
 
   placesAct() {
     for(let i=0; i<this.places.length; i++) {
       for(let j=0; j<this.places[i].length; j++) {
-        this.places[i][j].act();
+        this.places[i][j].act(this);
       }
     }    
   }
@@ -281,21 +602,225 @@ class AntColony {
 }
 
 
+/**
+ * Creates a new ant of the given type name (case-insensitive), or returns
+ * undefined if there is no such type
+ */
+function createAnt(antType:string):Ant {
+  let type = getAntType(antType);
+  return type !== undefined ? type.create() : undefined;
+}
+
+
+/**
+ * A point in the undo history of an AntGame
+ */
+interface GameHistoryEntry {
+  state:SavedGame;
+  turnSnapshots:{[index:number]:SavedGame}; //start-of-turn boards, as known at that point
+}
+
+/**
+ * Creates a new bee of the given species name (case-insensitive), or returns
+ * undefined if there is no such species
+ */
+function createBee(species:string, armor:number, damage:number):Bee {
+  switch(species.toLowerCase()) {
+    case "bee":
+      return new Bee(armor, damage);
+    case "fastbee":
+      return new FastBee(armor, damage);
+    case "armoredbee":
+      return new ArmoredBee(armor, damage);
+    case "wasp":
+      return new Wasp(armor, damage);
+    case "bossbee":
+      return new BossBee(armor, damage);
+    case "hornet":
+      return new Hornet(armor, damage);
+    case "scoutbee":
+      return new ScoutBee(armor, damage);
+    case "diggerbee":
+      return new DiggerBee(armor, damage);
+    case "timidbee":
+      return new TimidBee(armor, damage);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The names of all the bee species
+ */
+const BEE_SPECIES = ['Bee', 'FastBee', 'ArmoredBee', 'Wasp', 'BossBee', 'Hornet', 'ScoutBee', 'DiggerBee', 'TimidBee'];
+
+
+/**
+ * Running totals kept over a game, for scoring
+ */
+interface GameStats {
+  beesKilled:number;
+  antsLost:number;
+}
+
+
 class AntGame {
   private turn:number = 0;
-  constructor(private colony:AntColony, private hive:Hive){}
+  private random:Random;
+  private scenarioName:string = 'Custom';
+  private stats:GameStats = {beesKilled:0, antsLost:0};
+  private undoStack:GameHistoryEntry[] = [];
+  private redoStack:GameHistoryEntry[] = [];
+  private turnSnapshots:{[index:number]:SavedGame} = {};
+  private events:GameEvents = new GameEvents();
+
+  constructor(private colony:AntColony, private hive:Hive, seed?:number){
+    this.random = new Random(seed);
+    this.colony.setEvents(this.events);
+    this.events
+      .on('InsectExpired', (e) => e.insect instanceof Bee ? this.beeKilled() : this.stats.antsLost++)
+      .on('BeeDigested', (e) => this.beeKilled())
+      .on('AntDrowned', (e) => this.stats.antsLost++);
+  }
 
   takeTurn() {
-    console.log('');
-    this.colony.antsAct();
-    this.colony.beesAct();
-    this.colony.placesAct();
-    this.hive.invade(this.colony, this.turn);
-    this.turn++;
-    console.log('');
+    this.record('turn', () => {
+      this.colony.antsAct(this.random);
+      this.colony.beesAct();
+      this.colony.placesAct();
+      this.colony.collectFood();
+      this.hive.invade(this.colony, this.turn, this.random);
+      this.events.emit('TurnEnded', {turn:this.turn});
+      this.turn++;
+      return undefined;
+    });
+    this.turnSnapshots[this.turn] = saveGame(this);
+  }
+
+  /**
+   * Counts a kill, and pays the economy's bounty for it
+   */
+  private beeKilled() {
+    this.stats.beesKilled++;
+    this.colony.increaseFood(this.colony.getEconomy().bounty);
+  }
+
+  /**
+   * Performs an undoable action, which returns an error message if it failed
+   */
+  private record(command:string, action:() => string):string {
+    if(this.turnSnapshots[this.turn] === undefined) { //no action yet this turn
+      this.turnSnapshots[this.turn] = saveGame(this);
+    }
+    let before = this.snapshot();
+    let error = action();
+    if(error === undefined) {
+      this.undoStack.push(before);
+      this.redoStack = [];
+      this.events.emit('CommandPerformed', {command:command});
+    }
+    return error;
+  }
+
+  private snapshot():GameHistoryEntry {
+    let turnSnapshots:{[index:number]:SavedGame} = {};
+    Object.keys(this.turnSnapshots).forEach((turn) => turnSnapshots[turn] = this.turnSnapshots[turn]);
+    return {state:saveGame(this), turnSnapshots:turnSnapshots};
+  }
+
+  private restore(saved:SavedGame) {
+    let restored = loadGame(saved);
+    this.colony = restored.colony;
+    this.colony.setEvents(this.events);
+    this.hive = restored.hive;
+    this.random = restored.random;
+    this.turn = restored.turn;
+    this.stats = restored.stats;
+  }
+
+  undo():string {
+    if(this.undoStack.length === 0) {
+      return 'nothing to undo';
+    }
+    this.redoStack.push(this.snapshot());
+    let entry = this.undoStack.pop();
+    this.restore(entry.state);
+    this.turnSnapshots = entry.turnSnapshots;
+    this.events.emit('CommandPerformed', {command:'undo'});
+    return undefined;
+  }
+
+  redo():string {
+    if(this.redoStack.length === 0) {
+      return 'nothing to redo';
+    }
+    this.undoStack.push(this.snapshot());
+    let entry = this.redoStack.pop();
+    this.restore(entry.state);
+    this.turnSnapshots = entry.turnSnapshots;
+    this.events.emit('CommandPerformed', {command:'redo'});
+    return undefined;
+  }
+
+  /**
+   * Starts the game over from the earliest board it remembers, with the
+   * same dice, and forgets the undo history
+   */
+  restart() {
+    let turns = Object.keys(this.turnSnapshots).map(Number);
+    if(turns.length > 0) {
+      this.restore(this.turnSnapshots[Math.min.apply(Math, turns)]);
+      this.turnSnapshots = {};
+      this.turnSnapshots[this.turn] = saveGame(this); //a fresh copy, which the restarted game can't reach
+    }
+    this.undoStack = [];
+    this.redoStack = [];
+    this.events.emit('CommandPerformed', {command:'restart'});
+  }
+
+  /**
+   * Restores the board as it was at the start of an earlier turn. This can
+   * itself be undone.
+   */
+  rewind(turn:number):string {
+    if(!(turn >= 0 && turn < this.turn) || this.turnSnapshots[turn] === undefined) {
+      return 'no earlier turn '+turn;
+    }
+    let snapshot = this.turnSnapshots[turn];
+    return this.record('rewind '+turn, () => {
+      this.restore(snapshot);
+      return undefined;
+    });
+  }
+
+  /**
+   * A copy of the game as it stands, sharing nothing with it, so that moves
+   * can be tried out on it. The copy has no undo history and no listeners.
+   */
+  clone():AntGame {
+    return loadGame(saveGame(this));
   }
 
   getTurn() { return this.turn; }
+  setTurn(turn:number) { this.turn = turn; }
+
+  getSeed():number { return this.random.seed; }
+
+  getScenarioName():string { return this.scenarioName; }
+  setScenarioName(name:string) { this.scenarioName = name; }
+
+  getStats():GameStats { return this.stats; }
+  setStats(stats:GameStats) { this.stats = stats; }
+  getRandom():Random { return this.random; }
+
+  /**
+   * The events reported by this game. Listeners stay subscribed across
+   * undo, redo and rewind.
+   */
+  getEvents():GameEvents { return this.events; }
+
+  getColony():AntColony { return this.colony; }
+  getHive():Hive { return this.hive; }
 
   gameIsWon():boolean|undefined {
     if(this.colony.queenHasBees()){
@@ -308,55 +833,74 @@ class AntGame {
   }
 
   deployAnt(antType:string, placeCoordinates:string):string {
-    let ant;
-    switch(antType.toLowerCase()) {
-      case "grower":
-        ant = new GrowerAnt(); break;
-      case "thrower":
-        ant = new ThrowerAnt(); break;
-      case "eater":
-        ant = new EaterAnt(); break;
-      case "scuba":
-        ant = new ScubaAnt(); break;
-      case "guard":
-        ant = new GuardAnt(); break;
-      default:
-        return 'unknown ant type';
-    }
-
-    try {
-      let coords = placeCoordinates.split(',');
-      let place:Place = this.colony.getPlaces()[coords[0]][coords[1]];
-      return this.colony.deployAnt(ant, place);
-    } catch(e) {
-      return 'illegal location';
+    let ant = createAnt(antType);
+    if(ant === undefined) {
+      return 'unknown ant type';
     }
+
+    return this.record(`deploy ${antType} ${placeCoordinates}`, () => {
+      try {
+        let coords = placeCoordinates.split(',');
+        let place:Place = this.colony.getPlaces()[coords[0]][coords[1]];
+        return this.colony.deployAnt(ant, place);
+      } catch(e) {
+        return 'illegal location';
+      }
+    });
   }
 
   removeAnt(placeCoordinates:string):string {
-    try {
-      let coords = placeCoordinates.split(',');
-      let place:Place = this.colony.getPlaces()[coords[0]][coords[1]];
-      place.removeAnt();
-      return undefined;
-    }catch(e){
-      return 'illegal location';
-    }    
+    return this.record('remove '+placeCoordinates, () => {
+      try {
+        let coords = placeCoordinates.split(',');
+        let place:Place = this.colony.getPlaces()[coords[0]][coords[1]];
+        this.colony.removeAnt(place);
+        return undefined;
+      }catch(e){
+        return 'illegal location';
+      }    
+    });
   }
 
   boostAnt(boostType:string, placeCoordinates:string):string {
-    try {
-      let coords = placeCoordinates.split(',');
-      let place:Place = this.colony.getPlaces()[coords[0]][coords[1]];
-      return this.colony.applyBoost(boostType,place);
-    }catch(e){
-      return 'illegal location';
-    }    
+    return this.record(`boost ${boostType} ${placeCoordinates}`, () => {
+      try {
+        let coords = placeCoordinates.split(',');
+        let place:Place = this.colony.getPlaces()[coords[0]][coords[1]];
+        return this.colony.applyBoost(boostType,place);
+      }catch(e){
+        return 'illegal location';
+      }    
+    });
+  }
+
+  upgradeAnt(placeCoordinates:string, upgradeName:string):string {
+    return this.record(`upgrade ${placeCoordinates} ${upgradeName}`, () => {
+      try {
+        let coords = placeCoordinates.split(',');
+        let place:Place = this.colony.getPlaces()[coords[0]][coords[1]];
+        return this.colony.upgradeAnt(upgradeName, place);
+      }catch(e){
+        return 'illegal location';
+      }
+    });
   }
 
   getPlaces():Place[][] { return this.colony.getPlaces(); }
   getFood():number { return this.colony.getFood(); }
+
+  /**
+   * The food there will be next turn, from the queen's income and the
+   * ants' upkeep, if nothing is spent or gathered
+   */
+  getNextTurnFood():number { return Math.max(0, this.colony.getFood() + this.colony.getFoodPerTurn()); }
   getHiveBeesCount():number { return this.hive.getBees().length; }
+  getBoostCounts():{[index:string]:number} {
+    let boosts = this.colony.getBoosts();
+    let counts:{[index:string]:number} = {};
+    this.getBoostNames().forEach((boost) => counts[boost] = boosts[boost]);
+    return counts;
+  }
   getBoostNames():string[] { 
     let boosts = this.colony.getBoosts();
     return Object.keys(boosts).filter((boost:string) => {
@@ -365,4 +909,4 @@ class AntGame {
   }
 }
 
-export { AntGame, Place, Hive, AntColony }
\ No newline at end of file
+export { AntGame, GameStats, Place, Hive, AntColony, ColonyLayout, createAnt, createBee, BEE_SPECIES }
\ No newline at end of file
@@ -0,0 +1,238 @@
+import {adviseOn} from './advisor';
+import {EaterAnt} from './ants';
+import {AntGame, Place} from './game';
+import {Scenario, loadScenario, validateScenario, createGame} from './scenario';
+import {scoreOf} from './scores';
+import {ActiveStatus} from './statuses';
+
+import fs = require('fs');
+import path = require('path');
+
+/**
+ * The folder holding the built-in test scripts
+ */
+export const TEST_FOLDER = path.join(__dirname, '..', 'tests');
+
+/**
+ * What happened when running one test script
+ */
+export interface ScriptResult {
+  file:string;
+  checks:number;
+  failures:string[];
+}
+
+/**
+ * A test script is a list of lines, one command each:
+ *
+ *   scenario <built-in name | file | inline JSON>
+ *   seed <n>
+ *   deploy <antType> <row,col>
+ *   remove <row,col>
+ *   boost <boost> <row,col>
+ *   upgrade <row,col> <path>
+ *   turn [count]
+ *   rewind <turn>
+ *   restart
+ *   expect <subject> [row,col] <value>
+ *
+ * where an expect subject is one of food, next-food, turn, won, hive, boosts <name>,
+ * bees-killed, ants-lost, score, advice (how many warnings the advisor has), ant, guarded, armor, guarded-armor, level,
+ * bees, bee-armor, bee-statuses (as name:turns,...) or full. Blank lines and lines starting with # are ignored.
+ */
+class TestScript {
+  private scenario:Scenario;
+  private seed:number = 1;
+  private game:AntGame;
+  private checks = 0;
+  private failures:string[] = [];
+
+  constructor(private file:string){}
+
+  run():ScriptResult {
+    let lines = fs.readFileSync(this.file, 'utf8').split(/\r?\n/);
+    for(let i=0; i<lines.length; i++) {
+      let line = lines[i].trim();
+      if(line === '' || line[0] === '#') { continue; }
+      try {
+        let error = this.runLine(line);
+        if(error) {
+          this.failures.push(`line ${i+1}: ${line}\n    ${error}`);
+        }
+      } catch(e) {
+        this.failures.push(`line ${i+1}: ${line}\n    ${e.message}`);
+        break; //the board can't be trusted after a broken command
+      }
+    }
+    return {file:this.file, checks:this.checks, failures:this.failures};
+  }
+
+  /**
+   * Runs one command, returning a failure message if an expectation is not
+   * met. Throws an Error if the command itself is bad.
+   */
+  private runLine(line:string):string {
+    let words = line.split(/\s+/);
+    let args = words.slice(1);
+    switch(words[0]) {
+      case 'scenario':
+        this.scenario = this.readScenario(line.slice('scenario'.length).trim());
+        return undefined;
+      case 'seed':
+        this.seed = Number(args[0]);
+        return undefined;
+      case 'deploy':
+        return this.perform(this.getGame().deployAnt(args[0], args[1]));
+      case 'remove':
+        return this.perform(this.getGame().removeAnt(args[0]));
+      case 'boost':
+        return this.perform(this.getGame().boostAnt(args[0], args[1]));
+      case 'upgrade':
+        return this.perform(this.getGame().upgradeAnt(args[0], args[1]));
+      case 'turn':
+        for(let i=0; i < (args[0] !== undefined ? Number(args[0]) : 1); i++) {
+          this.getGame().takeTurn();
+        }
+        return undefined;
+      case 'rewind':
+        return this.perform(this.getGame().rewind(Number(args[0])));
+      case 'restart':
+        this.getGame().restart();
+        return undefined;
+      case 'expect':
+        this.checks++;
+        return this.expect(args);
+      default:
+        throw new Error(`unknown command ${words[0]}`);
+    }
+  }
+
+  private readScenario(source:string):Scenario {
+    if(source[0] !== '{') {
+      let file = path.resolve(path.dirname(this.file), source);
+      return loadScenario(fs.existsSync(file) ? file : source);
+    }
+    let scenario = JSON.parse(source);
+    let error = validateScenario(scenario);
+    if(error) {
+      throw new Error(`invalid scenario: ${error}`);
+    }
+    return scenario;
+  }
+
+  private getGame():AntGame {
+    if(this.game === undefined) {
+      if(this.scenario === undefined) {
+        throw new Error('no scenario given before the first move');
+      }
+      this.game = createGame(this.scenario, this.seed);
+    }
+    return this.game;
+  }
+
+  private perform(error:string):string {
+    if(error) {
+      throw new Error(`move failed: ${error}`);
+    }
+    return undefined;
+  }
+
+  private getPlace(coords:string):Place {
+    let [row, col] = coords.split(',').map(Number);
+    let place = (this.getGame().getPlaces()[row] || [])[col];
+    if(place === undefined) {
+      throw new Error(`no place at ${coords}`);
+    }
+    return place;
+  }
+
+  private expect(args:string[]):string {
+    let game = this.getGame();
+    let subject = args[0];
+    let expected = args[args.length-1];
+    let actual:any;
+    switch(subject) {
+      case 'food':
+        actual = game.getFood(); break;
+      case 'next-food':
+        actual = game.getNextTurnFood(); break;
+      case 'turn':
+        actual = game.getTurn(); break;
+      case 'won':
+        actual = game.gameIsWon(); break;
+      case 'hive':
+        actual = game.getHiveBeesCount(); break;
+      case 'boosts':
+        actual = game.getColony().getBoosts()[args[1]] || 0; break;
+      case 'bees-killed':
+        actual = game.getStats().beesKilled; break;
+      case 'ants-lost':
+        actual = game.getStats().antsLost; break;
+      case 'score':
+        actual = scoreOf(game).total; break;
+      case 'advice':
+        actual = adviseOn(game).length; break;
+      case 'ant':
+        actual = this.getPlace(args[1]).getAnt(); actual = actual ? actual.name : 'none'; break;
+      case 'guarded':
+        actual = this.getPlace(args[1]).getGuardedAnt(); actual = actual ? actual.name : 'none'; break;
+      case 'armor':
+        actual = this.getPlace(args[1]).getAnt(); actual = actual ? actual.getArmor() : 'none'; break;
+      case 'guarded-armor':
+        actual = this.getPlace(args[1]).getGuardedAnt(); actual = actual ? actual.getArmor() : 'none'; break;
+      case 'level':
+        actual = this.getPlace(args[1]).getAnt(); actual = actual ? actual.getLevel() : 'none'; break;
+      case 'bees':
+        actual = this.getPlace(args[1]).getBees().length; break;
+      case 'bee-armor':
+        actual = this.getPlace(args[1]).getBees()[0]; actual = actual ? actual.getArmor() : 'none'; break;
+      case 'bee-statuses':
+        actual = this.getPlace(args[1]).getBees()[0];
+        actual = actual ? actual.getStatuses().map((a:ActiveStatus) => a.status.name+':'+a.turns).join(',') || 'none' : 'none';
+        break;
+      case 'full':
+        actual = this.getPlace(args[1]).getGuardedAnt();
+        actual = actual instanceof EaterAnt ? actual.isFull() : 'not an Eater'; break;
+      default:
+        throw new Error(`unknown expectation ${subject}`);
+    }
+    if(String(actual) !== expected) {
+      return `expected ${expected}, got ${actual}`;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Runs one test script
+ */
+export function runScript(file:string):ScriptResult {
+  return new TestScript(file).run();
+}
+
+/**
+ * Runs every test script (*.avb) in a folder, printing a line for each.
+ * Returns true if they all passed.
+ */
+export function runTests(folder:string = TEST_FOLDER):boolean {
+  let files = fs.readdirSync(folder)
+    .filter((file) => path.extname(file) === '.avb')
+    .sort()
+    .map((file) => path.join(folder, file));
+
+  let failed = 0;
+  files.forEach((file) => {
+    let result = runScript(file);
+    let name = path.basename(file);
+    if(result.failures.length === 0) {
+      console.log(`ok    ${name} (${result.checks} checks)`);
+    }
+    else {
+      failed++;
+      console.log(`FAIL  ${name}`);
+      result.failures.forEach((failure) => console.log('  '+failure));
+    }
+  });
+  console.log(`\n${files.length - failed} of ${files.length} test scripts passed`);
+  return failed === 0;
+}
@@ -1,35 +1,171 @@
 import * as Ants from './ants';
-import {AntColony, AntGame, Hive} from './game';
-import {play, showMapOf} from './ui';
+import {AntGame} from './game';
+import {play, playVersus, playTutorial, showMapOf, logEventsOf, watchReplay} from './ui';
+import {loadGameFromFile} from './save';
+import {Scenario, loadScenario, createGame} from './scenario';
+import {getStrategy, STRATEGIES} from './strategies';
+import {simulate, formatReport, saveReport} from './simulate';
+import {runTests} from './harness';
+import {GameServer} from './server';
+import {createVersusGame, DEFAULT_VERSUS_OPTIONS} from './versus';
+import {Renderer, RENDERERS, getRenderer} from './renderers';
+import {Replay, loadReplay, verifyReplay, recordReplay} from './replay';
 
+/**
+ * Returns the value given after a command-line flag (e.g. `--seed 42`), or
+ * undefined if the flag was not given
+ */
+function getOption(flag:string):string {
+  let index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index+1] : undefined;
+}
+
+let seedOption = getOption('--seed');
+let seed:number = seedOption !== undefined ? parseInt(seedOption) : undefined;
+if(seedOption !== undefined && isNaN(seed)){
+  console.log(`Invalid seed: ${seedOption}`);
+  process.exit(1);
+}
 
-if(process.argv[2] === '--debug'){ 
+/**
+ * Reads the scenario named by --scenario, falling back to the given built-in
+ */
+function getScenario(defaultName:string):Scenario {
+  try {
+    return loadScenario(getOption('--scenario') || defaultName);
+  } catch(e) {
+    console.log(`Invalid scenario: ${e.message}.`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Reads a whole-number option, falling back to the given default
+ */
+function getNumberOption(flag:string, defaultValue:number):number {
+  let option = getOption(flag);
+  if(option === undefined) { return defaultValue; }
+  let value = parseInt(option);
+  if(isNaN(value) || value < 0){
+    console.log(`Invalid ${flag}: ${option}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+//whether the advisor starts on, warning about the board after every turn
+let advising = process.argv.indexOf('--advisor') >= 0;
+
+let renderer:Renderer = getRenderer(getOption('--renderer') || 'color');
+if(renderer === undefined){
+  console.log(`Invalid renderer: choose one of ${RENDERERS.map((r) => r.name).join(', ')}`);
+  process.exit(1);
+}
+
+if(process.argv.indexOf('--test') >= 0){
+  //run the scripted scenario tests
+  let folder = getOption('--test');
+  let passed = folder !== undefined && folder.indexOf('--') !== 0 ? runTests(folder) : runTests();
+  process.exitCode = passed ? 0 : 1;
+}
+else if(process.argv.indexOf('--simulate') >= 0){
+  //play a batch of games without the REPL, for balance testing
+  let strategy = getStrategy(getOption('--strategy') || 'basic');
+  if(strategy === undefined){
+    console.log(`Invalid strategy: choose one of ${STRATEGIES.map((s) => s.name).join(', ')}`);
+    process.exit(1);
+  }
+
+  let report = simulate(getScenario('full-colony'), strategy, {
+    games: getNumberOption('--games', 100),
+    firstSeed: seed !== undefined ? seed : 1,
+    maxTurns: getNumberOption('--turns', 100)
+  });
+  console.log(formatReport(report));
+  if(getOption('--out') !== undefined){
+    saveReport(report, getOption('--out'));
+  }
+}
+else if(getOption('--serve') !== undefined){
+  //serve a game to a browser front end, on localhost only
+  let port = getNumberOption('--serve', 0);
+  new GameServer(createGame(getScenario('full-colony'), seed)).listen(port);
+}
+else if(process.argv.indexOf('--versus') >= 0){
+  //two players at one keyboard: one runs the colony, the other the hive
+  let versus = createVersusGame(getScenario('full-colony'), {
+    nectar: getNumberOption('--nectar', DEFAULT_VERSUS_OPTIONS.nectar),
+    nectarPerTurn: DEFAULT_VERSUS_OPTIONS.nectarPerTurn,
+    turns: getNumberOption('--turns', DEFAULT_VERSUS_OPTIONS.turns)
+  }, seed);
+  playVersus(versus, renderer);
+}
+else if(getOption('--replay') !== undefined){
+  //play back a recorded game, or just check that it still ends the same way
+  let replay:Replay;
+  try {
+    replay = loadReplay(getOption('--replay'));
+  } catch(e) {
+    console.log(`Invalid replay: ${e.message}.`);
+    process.exit(1);
+  }
+
+  if(process.argv.indexOf('--verify') >= 0){
+    let error = verifyReplay(replay);
+    console.log(error ? `Replay failed: ${error}.` : `Replay verified: ${replay.commands.length} moves, hash ${replay.hash}`);
+    process.exitCode = error ? 1 : 0;
+  }
+  else {
+    watchReplay(replay, renderer, getOption('--speed') !== undefined ? getNumberOption('--speed', 0) : undefined);
+  }
+}
+else if(process.argv.indexOf('--tutorial') >= 0){
+  //scripted lessons on small scenarios, for new players
+  playTutorial(renderer);
+}
+else if(process.argv.indexOf('--debug') >= 0){
   //the scenario to debug with
-  var colony = new AntColony(16,1,8,0); //testing colony
-  var hive = new Hive(3,1) //testing Hive
-                .addWave(2,1)
-                .addWave(3,1);
-  var game = new AntGame(colony, hive);
-  
+  var game = createGame(getScenario('testing'), seed !== undefined ? seed : 1); //fixed seed, so every run is the same
+  logEventsOf(game);
+
   //run hard-coded commands
   game.deployAnt('Grower', '0,0'); //for example
   game.deployAnt('Thrower', '0,1');
   game.takeTurn(); //for example
   game.takeTurn();
   game.takeTurn();
-  showMapOf(game); //show the board, for example (for debugging)
+  showMapOf(game, renderer); //show the board, for example (for debugging)
 
-  //play(game); //launch the interactive version from here
+  //play(game, renderer); //launch the interactive version from here
+
+}
+else if(getOption('--load') !== undefined){
+  if(getOption('--record') !== undefined){
+    console.log('Invalid record: only a new game can be recorded, not a loaded one.');
+    process.exit(1);
+  }
+  try {
+    var game = loadGameFromFile(getOption('--load'));
+  } catch(e) {
+    console.log(`Invalid load: ${e.message}.`);
+    process.exit(1);
+  }
 
+  play(game, renderer, advising);
 }
 else {
-  //initialize the game to play (not interactively selected yet)
-  var colony = new AntColony(2,3,8,3); //full colony
-  var hive = new Hive(3,1) //testing Hive
-                .addWave(2,1)
-                .addWave(3,1);
-  var game = new AntGame(colony, hive);
+  //initialize the game to play (another can be picked with the new-game command)
+  let scenario = getScenario('full-colony');
+  var game = createGame(scenario, seed);
+  if(getOption('--record') !== undefined){
+    try {
+      recordReplay(game, scenario, getOption('--record'));
+    } catch(e) {
+      console.log(`Invalid record: ${e.message}.`);
+      process.exit(1);
+    }
+  }
 
   //start playing the game
-  play(game); 
+  play(game, renderer, advising, getOption('--record') !== undefined);
 }
@@ -0,0 +1,84 @@
+import {AntColony, Place} from './game';
+import {Bee} from './ants';
+
+/**
+ * A way a bee gets through the tunnels
+ */
+export interface Movement {
+  name:string;
+  description:string;
+  /**
+   * Where the bee goes this turn, or undefined if it stays where it is (and
+   * stings the ant in its way, if there is one)
+   */
+  nextPlace(bee:Bee, colony:AntColony):Place;
+}
+
+/**
+ * Where a bee would go walking: to the exit, unless an ant is in the way
+ */
+function walk(bee:Bee):Place {
+  return bee.isBlocked() ? undefined : bee.getPlace().getExit();
+}
+
+/**
+ * The "row,col" coordinates of a place in the colony's tunnels, or undefined
+ * if it isn't in them
+ */
+function coordinatesOf(place:Place, colony:AntColony):number[] {
+  let places = colony.getPlaces();
+  for(let i=0; i<places.length; i++) {
+    let j = places[i].indexOf(place);
+    if(j >= 0) { return [i, j]; }
+  }
+  return undefined;
+}
+
+export const MOVEMENTS:Movement[] = [
+  {name:'walk', description:'Walks towards the queen, stopping to sting any ant in the way.',
+   nextPlace: (bee) => walk(bee)},
+  {name:'fly', description:'Flies over ants, unless a Guard stands in the way.',
+   nextPlace: (bee) => bee.getPlace().isGuarded() ? undefined : bee.getPlace().getExit()},
+  {name:'switch', description:'When blocked, moves sideways into a free place in the tunnel above or below.',
+   nextPlace: (bee, colony) => {
+     if(!bee.isBlocked()) { return walk(bee); }
+     let coordinates = coordinatesOf(bee.getPlace(), colony);
+     if(coordinates === undefined) { return undefined; }
+     let [row, col] = coordinates;
+     let sideways = [row-1, row+1].map((i) => (colony.getPlaces()[i] || [])[col])
+       .filter((place) => place !== undefined && !place.isWater() && place.getAnt() === undefined);
+     let best:Place;
+     sideways.forEach((place) => {
+       if(best === undefined || place.distanceToQueen() < best.distanceToQueen())
+         best = place;
+     });
+     return best;
+   }},
+  {name:'dig', description:'Digs under water places (and any ant in them) without stopping.',
+   nextPlace: (bee) => {
+     let place = bee.getPlace();
+     if(bee.isBlocked() && !place.isWater()) { return undefined; }
+     let next = place.getExit();
+     while(next !== undefined && next.isWater() && next.getExit() !== undefined) {
+       next = next.getExit();
+     }
+     return next;
+   }},
+  {name:'retreat', description:'Walks, but turns back towards the hive once it is down to half its armor.',
+   nextPlace: (bee) => {
+     if(bee.getArmor()*2 > bee.getFullArmor()) { return walk(bee); }
+     let best:Place;
+     bee.getPlace().getEntrances().forEach((entrance) => {
+       if(best === undefined || entrance.distanceToQueen() > best.distanceToQueen())
+         best = entrance;
+     });
+     return best !== undefined ? best : walk(bee); //back at the tunnel end, it tries again
+   }}
+];
+
+/**
+ * Finds the movement with the given name (case-insensitive)
+ */
+export function getMovement(name:string):Movement {
+  return MOVEMENTS.filter((movement) => movement.name.toLowerCase() === name.toLowerCase())[0];
+}
@@ -0,0 +1,41 @@
+/**
+ * A small seedable pseudo-random number generator (Park-Miller "minimal
+ * standard"), so that a game played with the same seed always rolls the
+ * same dice.
+ */
+export class Random {
+  private static readonly MODULUS = 2147483647;
+  private static readonly MULTIPLIER = 16807;
+
+  private state:number;
+
+  constructor(readonly seed:number = Random.randomSeed()) {
+    this.setState(seed);
+  }
+
+  /**
+   * Returns a pseudo-random number in the range [0, 1), like Math.random()
+   */
+  next():number {
+    this.state = (this.state * Random.MULTIPLIER) % Random.MODULUS;
+    return (this.state - 1) / (Random.MODULUS - 1);
+  }
+
+  /**
+   * Returns a pseudo-random integer in the range [0, max)
+   */
+  nextInt(max:number):number {
+    return Math.floor(this.next()*max);
+  }
+
+  getState():number { return this.state; }
+
+  setState(state:number) {
+    state = Math.floor(Math.abs(state)) % Random.MODULUS;
+    this.state = state > 0 ? state : 1; //0 is a fixed point of the generator
+  }
+
+  static randomSeed():number {
+    return Math.floor(Math.random()*Random.MODULUS);
+  }
+}
@@ -0,0 +1,378 @@
+import {AntGame, Place} from './game';
+import {Insect, Ant, Bee, BossBee, EaterAnt, GuardAnt, getAntType} from './ants';
+import {SavedPlace, saveGame} from './save';
+import {Terrain, getTerrain} from './terrain';
+
+import fs = require('fs');
+import path = require('path');
+import chalk = require('chalk');
+import _ = require('lodash');
+
+/**
+ * A way of drawing the board: for the terminal, for logs, or for other programs
+ */
+export interface Renderer {
+  name:string;
+  description:string;
+  extension:string; //for files exported in this format
+  render(game:AntGame):string;
+}
+
+/**
+ * A snapshot of the game that can be sent or saved as JSON
+ */
+export interface GameState {
+  turn:number;
+  food:number;
+  nextTurnFood:number; //from income and upkeep, before anything is spent or gathered
+  boosts:{[index:string]:number};
+  hiveBees:number;
+  won:boolean|undefined; //undefined while the game is still going
+  places:SavedPlace[][]; //the board, in the same shape as a saved game
+}
+
+export function stateOf(game:AntGame):GameState {
+  return {
+    turn: game.getTurn(),
+    food: game.getFood(),
+    nextTurnFood: game.getNextTurnFood(),
+    boosts: game.getBoostCounts(),
+    hiveBees: game.getHiveBeesCount(),
+    won: game.gameIsWon(),
+    places: saveGame(game).colony.places
+  };
+}
+
+/**
+ * Lists the boosts in the colony's inventory, with how many there are
+ */
+function boostCountsOf(game:AntGame):string {
+  let counts = game.getBoostCounts();
+  return Object.keys(counts).map((boost) => `${boost} x${counts[boost]}`).join(', ');
+}
+
+/**
+ * The colony's food, with what it will be next turn if the economy makes
+ * or costs food every turn
+ */
+function foodOf(game:AntGame):string {
+  let economy = game.getColony().getEconomy();
+  if(economy.income === 0 && economy.upkeep === 0) {
+    return String(game.getFood());
+  }
+  return `${game.getFood()} (next turn: ${game.getNextTurnFood()})`;
+}
+
+/**
+ * The letter for a group of bees: a boss if there is one, else the first bee
+ */
+function beeOf(bees:Bee[]):Bee {
+  let bosses = bees.filter((bee) => bee instanceof BossBee);
+  return bosses.length > 0 ? bosses[0] : bees[0];
+}
+
+/**
+ * The statuses an insect is under, with their turns left (e.g. "stuck 1, poisoned 2")
+ */
+export function statusesOf(insect:Insect):string {
+  return insect.getStatuses().map((active) => `${active.status.name} ${active.turns}`).join(', ');
+}
+
+/**
+ * A line for each insect on the board that is under a status
+ */
+function statusLinesOf(game:AntGame):string[] {
+  let lines:string[] = [];
+  game.getPlaces().forEach((tunnel, i) => tunnel.forEach((place, j) => {
+    let insects:Insect[] = [place.getAnt(), place.getGuardedAnt()].filter((ant, k, ants) =>
+      ant !== undefined && ants.indexOf(ant) === k);
+    insects.concat(place.getBees()).forEach((insect) => {
+      if(insect.getStatuses().length > 0)
+        lines.push(`${i},${j} ${insect.name}: ${statusesOf(insect)}`);
+    });
+  }));
+  return lines;
+}
+
+/**
+ * The kinds of ground on the board, other than plain tunnel
+ */
+function terrainsOf(game:AntGame):Terrain[] {
+  let names = _.uniq(_.values(game.getColony().getTerrain()));
+  return names.map((name) => getTerrain(name));
+}
+
+const BEE_LETTERS:{[index:string]:string} = {FastBee:'F', ArmoredBee:'A', Wasp:'W', BossBee:'Q',
+                                              Hornet:'H', ScoutBee:'C', DiggerBee:'D', TimidBee:'I'};
+
+
+/**
+ * How the text board draws its pieces, with or without color
+ */
+interface TextStyle {
+  ant(ant:Ant):string;
+  bees(bees:Bee[]):string;
+  ground(terrain:Terrain):string;
+  bold(text:string):string;
+  hive:string;     //the icon for bees still in the hive
+  legend?:string;
+}
+
+const COLOR_STYLE:TextStyle = {
+  ant: function(ant:Ant):string {
+    if(ant === undefined){ return ' ' };
+    if(ant instanceof EaterAnt && ant.isFull()){
+      return chalk.yellow.bgMagenta('E');
+    }
+    if(ant instanceof GuardAnt && ant.getGuarded()){
+      return chalk.underline(this.ant(ant.getGuarded()));
+    }
+    let type = getAntType(ant.name);
+    if(type === undefined){ return '?' };
+    return chalk[type.color](type.icon);
+  },
+  bees: (bees:Bee[]) => {
+    switch(beeOf(bees).name){
+      case "FastBee":
+        return chalk.bgYellow.black('F');
+      case "ArmoredBee":
+        return chalk.bgYellow.blue('A');
+      case "Wasp":
+        return chalk.bgRed.black('W');
+      case "BossBee":
+        return chalk.bgRed.yellow.bold('Q');
+      case "Hornet":
+        return chalk.bgRed.black('H');
+      case "ScoutBee":
+        return chalk.bgYellow.green('C');
+      case "DiggerBee":
+        return chalk.bgYellow.red('D');
+      case "TimidBee":
+        return chalk.bgYellow.black('I');
+      default:
+        return chalk.bgYellow.black('B');
+    }
+  },
+  ground: (terrain) => terrain.color !== undefined ? chalk[terrain.color](terrain.glyph) : terrain.glyph,
+  bold: (text) => chalk.bold(text),
+  hive: chalk.bgYellow.black('B')
+};
+
+const PLAIN_STYLE:TextStyle = {
+  ant: function(ant:Ant):string {
+    if(ant === undefined){ return ' ' };
+    if(ant instanceof EaterAnt && ant.isFull()){
+      return '@';
+    }
+    if(ant instanceof GuardAnt && ant.getGuarded()){
+      return this.ant(ant.getGuarded()).toLowerCase();
+    }
+    let type = getAntType(ant.name);
+    return type !== undefined ? type.icon : '?';
+  },
+  bees: (bees:Bee[]) => BEE_LETTERS[beeOf(bees).name] || 'B',
+  ground: (terrain) => terrain.glyph,
+  bold: (text) => text,
+  hive: 'B',
+  legend: '  (lowercase: guarded by a Guard, @: an Eater with a bee inside)\n'
+};
+
+function textBoard(game:AntGame, style:TextStyle):string {
+  let places:Place[][] = game.getPlaces();
+  let tunnelLength = places[0].length;
+  let layout = game.getColony().getLayout();
+
+  let map = '';
+
+  map += style.bold('The Colony is under attack!\n');
+  map += `Turn: ${game.getTurn()}, Food: ${foodOf(game)}, Boosts available: [${boostCountsOf(game)}], Seed: ${game.getSeed()}\n`;
+  map += '     '+_.range(0,tunnelLength).join('    ')+'      Hive'+'\n';
+
+  for(let i=0; i<places.length; i++){
+    map += '    '+Array(tunnelLength+1).join('=====');
+
+    if(i===0){
+      map += '    ';
+      let hiveBeeCount = game.getHiveBeesCount();
+      if(hiveBeeCount > 0){
+        map += style.hive;
+        map += (hiveBeeCount > 1 ? hiveBeeCount : ' ');
+      }
+    }
+    map += '\n';
+
+    map += i+')  ';
+
+    for(let j=0; j<places[i].length; j++){
+      let place:Place = places[i][j];
+
+      map += style.ant(place.getAnt());
+      map += ' ';
+
+      if(place.getBees().length > 0){
+        map += style.bees(place.getBees());
+        map += (place.getBees().length > 1 ? place.getBees().length : ' ');
+      } else {
+        map += '  ';
+      }
+      map += ' ';
+    }
+    map += '\n    ';
+    for(let j=0; j<places[i].length; j++){
+      let place = places[i][j];
+      if(place.getTerrain().name !== 'tunnel'){
+        map += style.ground(place.getTerrain())+' ';
+      } else if(layout.exits[i+','+j] !== undefined){
+        map += style.bold('==+=')+' '; //a fork or a junction
+      } else {
+        map += '==== ';
+      }
+    }
+    map += '\n';
+  }
+  map += '     '+_.range(0,tunnelLength).join('    ')+'\n';
+
+  Object.keys(layout.exits).forEach((coords) => {
+    map += `  ${coords} leads to ${layout.exits[coords].join(' or ')}\n`;
+  });
+  if(layout.entrances !== undefined){
+    map += `  Bees come in at ${layout.entrances.join(', ')}\n`;
+  }
+  let grounds = terrainsOf(game);
+  if(grounds.length > 0){
+    map += '  '+grounds.map((terrain) => `${style.ground(terrain)} ${terrain.name}`).join(', ')+'\n';
+  }
+  statusLinesOf(game).forEach((line) => map += `  ${line}\n`);
+  if(style.legend !== undefined){
+    map += style.legend;
+  }
+
+  return map;
+}
+
+
+/**
+ * The colored board drawn in the terminal
+ */
+export const ColorRenderer:Renderer = {
+  name: 'color',
+  description: 'The colored board for the terminal.',
+  extension: '.txt',
+  render: (game:AntGame) => textBoard(game, COLOR_STYLE)
+};
+
+/**
+ * The same board without escape codes, for logs, CI output and screen readers
+ */
+export const AsciiRenderer:Renderer = {
+  name: 'ascii',
+  description: 'The board as plain text, without color.',
+  extension: '.txt',
+  render: (game:AntGame) => textBoard(game, PLAIN_STYLE)
+};
+
+/**
+ * A snapshot of the game as JSON
+ */
+export const JsonRenderer:Renderer = {
+  name: 'json',
+  description: 'A JSON snapshot of the turn, food, boosts, hive and board.',
+  extension: '.json',
+  render: (game:AntGame) => JSON.stringify(stateOf(game), null, 2)
+};
+
+
+function describeBees(bees:Bee[]):string {
+  let counts = _.countBy(bees, (bee:Bee) => bee.name);
+  return Object.keys(counts).map((name) => counts[name] > 1 ? `${name} x${counts[name]}` : name).join(', ');
+}
+
+function htmlCellOf(place:Place, fork:boolean):string {
+  let classes = [place.getTerrain().name].concat(fork ? ['fork'] : []);
+  let lines:string[] = [];
+  let ant = place.getAnt();
+  if(ant !== undefined){
+    let guarded = place.getGuardedAnt();
+    lines.push(`<span class="ant">${_.escape(ant.name)} (${ant.getArmor()})</span>`);
+    if(guarded !== undefined && guarded !== ant){
+      lines.push(`<span class="ant">over ${_.escape(guarded.name)} (${guarded.getArmor()})</span>`);
+    }
+  }
+  if(place.getBees().length > 0){
+    lines.push(`<span class="bees">${_.escape(describeBees(place.getBees()))}</span>`);
+  }
+  return `<td class="${classes.join(' ')}">${lines.join('<br>')}</td>`;
+}
+
+/**
+ * A standalone HTML page with the board as a table
+ */
+export const HtmlRenderer:Renderer = {
+  name: 'html',
+  description: 'A standalone HTML page with the board as a table.',
+  extension: '.html',
+  render: (game:AntGame) => {
+    let places = game.getPlaces();
+    let layout = game.getColony().getLayout();
+    let html = '<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n'+
+      `<title>Ants vs. Some-Bees: turn ${game.getTurn()}</title>\n`+
+      '<style>\n'+
+      '  table { border-collapse: collapse; font-family: sans-serif; }\n'+
+      '  th, td { border: 1px solid #999; padding: 4px 8px; min-width: 5em; height: 3em; text-align: center; }\n'+
+      '  td.water { background: #bde; }\n'+
+      '  td.mud { background: #cb9; }\n'+
+      '  td.high-ground { background: #eee; }\n'+
+      '  td.thorns { background: #9c9; }\n'+
+      '  td.nest { background: #dbd; }\n'+
+      '  td.fork { border-bottom: 3px double #333; }\n'+
+      '  .bees { color: #a60; font-weight: bold; }\n'+
+      '</style>\n</head>\n<body>\n'+
+      '<h1>The Colony is under attack!</h1>\n'+
+      `<p>Turn: ${game.getTurn()}, Food: ${_.escape(foodOf(game))}, Boosts available: [${_.escape(boostCountsOf(game))}], `+
+      `Seed: ${game.getSeed()}, Bees in the hive: ${game.getHiveBeesCount()}</p>\n`+
+      '<table>\n';
+
+    html += '<tr><th></th>'+_.range(0, places[0].length).map((j) => `<th>${j}</th>`).join('')+'</tr>\n';
+    places.forEach((tunnel, i) => {
+      html += `<tr><th>${i})</th>`+tunnel.map((place, j) => htmlCellOf(place, layout.exits[i+','+j] !== undefined)).join('')+'</tr>\n';
+    });
+    html += '</table>\n';
+
+    let notes = Object.keys(layout.exits).map((coords) => `${coords} leads to ${layout.exits[coords].join(' or ')}`);
+    if(layout.entrances !== undefined){
+      notes.push(`Bees come in at ${layout.entrances.join(', ')}`);
+    }
+    notes = notes.concat(terrainsOf(game).map((terrain) => `${terrain.name}: ${terrain.description}`));
+    notes = notes.concat(statusLinesOf(game));
+    if(notes.length > 0){
+      html += '<ul>\n'+notes.map((note) => `<li>${_.escape(note)}</li>\n`).join('')+'</ul>\n';
+    }
+    return html+'</body>\n</html>\n';
+  }
+};
+
+export const RENDERERS:Renderer[] = [ColorRenderer, AsciiRenderer, JsonRenderer, HtmlRenderer];
+
+/**
+ * Finds the built-in renderer with the given name (case-insensitive)
+ */
+export function getRenderer(name:string):Renderer {
+  return RENDERERS.filter((renderer) => renderer.name.toLowerCase() === name.toLowerCase())[0];
+}
+
+/**
+ * The renderer for a file, by its extension: plain text unless it is .json
+ * or .html, since escape codes are no use in a file
+ */
+export function rendererFor(file:string):Renderer {
+  let extension = path.extname(file).toLowerCase();
+  return RENDERERS.filter((renderer) => renderer !== ColorRenderer && renderer.extension === extension)[0]
+    || AsciiRenderer;
+}
+
+/**
+ * Writes the board to a file
+ */
+export function saveBoardToFile(game:AntGame, file:string, renderer:Renderer = rendererFor(file)) {
+  fs.writeFileSync(file, renderer.render(game));
+}
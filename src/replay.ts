@@ -0,0 +1,144 @@
+import {AntGame} from './game';
+import {Scenario, validateScenario, createGame} from './scenario';
+import {saveGame} from './save';
+
+import crypto = require('crypto');
+import fs = require('fs');
+
+/**
+ * The version of the replay format. Bump this whenever the shape of Replay
+ * changes, or the rules change so that old replays would play out differently.
+ */
+export const REPLAY_VERSION = 1;
+
+/**
+ * A game that can be played back: where it started, and every move made
+ */
+export interface Replay {
+  version:number;
+  scenario:Scenario; //the whole scenario, so that the replay doesn't depend on the scenario files
+  seed:number;
+  commands:string[]; //as typed at the REPL (e.g. "deploy Thrower 0,1", "turn")
+  hash:string;       //of the game as it stood after the last command
+}
+
+/**
+ * A fingerprint of the whole state of a game, for checking that a replay
+ * ends the way it was recorded
+ */
+export function hashOf(game:AntGame):string {
+  return crypto.createHash('sha256').update(JSON.stringify(saveGame(game))).digest('hex');
+}
+
+/**
+ * Writes every move made in a game to a replay file, as it is made. The
+ * game must be freshly created from the scenario.
+ */
+export function recordReplay(game:AntGame, scenario:Scenario, file:string) {
+  let replay:Replay = {version:REPLAY_VERSION, scenario:scenario, seed:game.getSeed(), commands:[], hash:hashOf(game)};
+  let write = () => fs.writeFileSync(file, JSON.stringify(replay, null, 2));
+  write();
+  game.getEvents().on('CommandPerformed', (e) => {
+    replay.commands.push(e.command);
+    replay.hash = hashOf(game);
+    write();
+  });
+}
+
+/**
+ * Reads a replay file. Throws an Error if it is missing or malformed.
+ */
+export function loadReplay(file:string):Replay {
+  let replay:any;
+  try {
+    replay = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch(e) {
+    throw new Error(`${file} is not a readable JSON file`);
+  }
+  if(replay === null || typeof replay !== 'object' || replay.version === undefined) {
+    throw new Error(`${file} is not a replay`);
+  }
+  if(replay.version !== REPLAY_VERSION) {
+    throw new Error(`unsupported replay version ${replay.version} (expected ${REPLAY_VERSION})`);
+  }
+  let error = validateScenario(replay.scenario);
+  if(error) {
+    throw new Error(`${file}: invalid scenario: ${error}`);
+  }
+  if(typeof replay.seed !== 'number' || !Array.isArray(replay.commands)
+     || replay.commands.some((command:any) => typeof command !== 'string')) {
+    throw new Error(`${file} is not a replay`);
+  }
+  return replay;
+}
+
+/**
+ * Starts a replay's game over from the beginning
+ */
+export function startReplay(replay:Replay):AntGame {
+  return createGame(replay.scenario, replay.seed);
+}
+
+/**
+ * Makes a recorded move. Returns an error message if it can't be made.
+ */
+export function performCommand(game:AntGame, command:string):string {
+  let [name, ...args] = command.split(' ');
+  switch(name) {
+    case 'deploy':
+      return game.deployAnt(args[0], args[1]);
+    case 'remove':
+      return game.removeAnt(args[0]);
+    case 'boost':
+      return game.boostAnt(args[0], args[1]);
+    case 'upgrade':
+      return game.upgradeAnt(args[0], args[1]);
+    case 'turn':
+      game.takeTurn();
+      return undefined;
+    case 'undo':
+      return game.undo();
+    case 'redo':
+      return game.redo();
+    case 'rewind':
+      return game.rewind(Number(args[0]));
+    case 'restart':
+      game.restart();
+      return undefined;
+    default:
+      return 'unknown command '+name;
+  }
+}
+
+/**
+ * Splits a replay's moves into turns: the moves made during each turn,
+ * ending with the "turn" command that ends it (except maybe the last)
+ */
+export function turnsOf(replay:Replay):string[][] {
+  let turns:string[][] = [[]];
+  replay.commands.forEach((command) => {
+    turns[turns.length-1].push(command);
+    if(command === 'turn') {
+      turns.push([]);
+    }
+  });
+  return turns.filter((turn) => turn.length > 0);
+}
+
+/**
+ * Plays a whole replay without any output, and checks that it ends the way
+ * it was recorded. Returns an error message if it doesn't.
+ */
+export function verifyReplay(replay:Replay):string {
+  let game = startReplay(replay);
+  for(let i=0; i<replay.commands.length; i++) {
+    let error = performCommand(game, replay.commands[i]);
+    if(error) {
+      return `move ${i+1} (${replay.commands[i]}) failed: ${error}`;
+    }
+  }
+  if(hashOf(game) !== replay.hash) {
+    return 'the game ended differently from how it was recorded';
+  }
+  return undefined;
+}
@@ -0,0 +1,268 @@
+import {Insect, Ant, Bee, EaterAnt} from './ants';
+import {AntColony, AntGame, Hive, Place, ColonyLayout, createAnt, createBee} from './game';
+import {getBoost} from './boosts';
+import {getUpgrade} from './upgrades';
+import {ActiveStatus, getStatus} from './statuses';
+import {getMovement} from './movements';
+import {Economy, economyOf} from './economy';
+
+import fs = require('fs');
+import _ = require('lodash');
+
+/**
+ * The version of the save format. Bump this whenever the shape of SavedGame
+ * changes, so that old saves are rejected instead of loading a broken board.
+ */
+export const SAVE_VERSION = 11;
+
+export interface SavedStatus {
+  name:string;
+  turns:number;
+}
+
+export interface SavedBee {
+  type:string;
+  armor:number;
+  damage:number;
+  fullArmor:number;
+  movement:string;
+  statuses:SavedStatus[];
+}
+
+export interface SavedAnt {
+  type:string;
+  armor:number;
+  boosts:{name:string, charges?:number, turns?:number}[];
+  statuses:SavedStatus[];
+  experience:number;
+  upgrades:string[];
+  turnsEating?:number; //EaterAnt only
+  eaten?:SavedBee;     //EaterAnt only
+}
+
+export interface SavedPlace {
+  ant?:SavedAnt;
+  guard?:SavedAnt;
+  bees:SavedBee[];
+}
+
+export interface SavedGame {
+  version:number;
+  seed:number;
+  randomState:number;
+  turn:number;
+  scenario:string; //the name of the scenario being played
+  stats:{beesKilled:number, antsLost:number};
+  colony: {
+    food:number;
+    tunnels:number;
+    tunnelLength:number;
+    terrain:{[coords:string]:string}; //terrain other than plain tunnel, by "row,col" coordinates
+    layout:ColonyLayout;
+    economy:Economy;
+    boosts:{[index:string]:number};
+    places:SavedPlace[][];
+    queenBees:SavedBee[];
+  };
+  hive: {
+    beeArmor:number;
+    beeDamage:number;
+    waves:{[index:number]:SavedBee[]}; //pending waves, keyed by attack turn
+    entrances:{[index:number]:number[]}; //entrances chosen for the bees in those waves
+  };
+}
+
+
+function saveStatuses(insect:Insect):SavedStatus[] {
+  return insect.getStatuses().map((active) => ({name:active.status.name, turns:active.turns}));
+}
+
+function loadStatuses(saved:SavedStatus[]):ActiveStatus[] {
+  return saved.map((active) => {
+    let status = getStatus(active.name);
+    if(status === undefined) {
+      throw new Error(`unknown status "${active.name}"`);
+    }
+    return {status:status, turns:active.turns};
+  });
+}
+
+function saveBee(bee:Bee):SavedBee {
+  return {type:bee.name, armor:bee.getArmor(), damage:bee.getDamage(), fullArmor:bee.getFullArmor(),
+          movement:bee.getMovement().name, statuses:saveStatuses(bee)};
+}
+
+function loadBee(saved:SavedBee):Bee {
+  let bee = createBee(saved.type, saved.armor, saved.damage);
+  if(bee === undefined) {
+    throw new Error(`unknown bee species "${saved.type}"`);
+  }
+  let movement = getMovement(saved.movement);
+  if(movement === undefined) {
+    throw new Error(`unknown movement "${saved.movement}"`);
+  }
+  bee.setFullArmor(saved.fullArmor);
+  bee.setMovement(movement);
+  bee.setStatuses(loadStatuses(saved.statuses));
+  return bee;
+}
+
+function saveAnt(ant:Ant):SavedAnt {
+  if(ant === undefined) { return undefined; }
+  let saved:SavedAnt = {
+    type: ant.name,
+    armor: ant.getArmor(),
+    boosts: ant.getBoosts().map((active) => ({name:active.boost.name, charges:active.charges, turns:active.turns})),
+    statuses: saveStatuses(ant),
+    experience: ant.getExperience(),
+    upgrades: ant.getUpgrades().map((upgrade) => upgrade.name)
+  };
+  if(ant instanceof EaterAnt) {
+    saved.turnsEating = ant.getTurnsEating();
+    if(ant.getEaten())
+      saved.eaten = saveBee(ant.getEaten());
+  }
+  return saved;
+}
+
+function loadAnt(saved:SavedAnt):Ant {
+  let ant = createAnt(saved.type);
+  if(ant === undefined) {
+    throw new Error(`unknown ant type "${saved.type}"`);
+  }
+  ant.setArmor(saved.armor);
+  ant.setBoosts(saved.boosts.map((active) => {
+    let boost = getBoost(active.name);
+    if(boost === undefined) {
+      throw new Error(`unknown boost "${active.name}"`);
+    }
+    return {boost:boost, charges:active.charges, turns:active.turns};
+  }));
+  ant.setStatuses(loadStatuses(saved.statuses));
+  ant.setExperience(saved.experience);
+  ant.setUpgrades(saved.upgrades.map((name) => {
+    let upgrade = getUpgrade(name);
+    if(upgrade === undefined) {
+      throw new Error(`unknown upgrade "${name}"`);
+    }
+    return upgrade;
+  }));
+  if(ant instanceof EaterAnt) {
+    ant.restoreDigestion(saved.turnsEating || 0, saved.eaten ? loadBee(saved.eaten) : undefined);
+  }
+  return ant;
+}
+
+function savePlace(place:Place):SavedPlace {
+  let guard = place.getAnt() !== place.getGuardedAnt() ? place.getAnt() : undefined;
+  return {
+    ant: saveAnt(place.getGuardedAnt()),
+    guard: saveAnt(guard),
+    bees: place.getBees().map(saveBee)
+  };
+}
+
+function loadPlace(saved:SavedPlace, place:Place) {
+  if(saved.ant)
+    place.addAnt(loadAnt(saved.ant));
+  if(saved.guard)
+    place.addAnt(loadAnt(saved.guard));
+  saved.bees.forEach((bee) => place.addBee(loadBee(bee)));
+}
+
+
+/**
+ * Captures the full state of a game as plain JSON-compatible data
+ */
+export function saveGame(game:AntGame):SavedGame {
+  let colony = game.getColony();
+  let hive = game.getHive();
+  let places = colony.getPlaces();
+
+  let waves:{[index:number]:SavedBee[]} = {};
+  let entrances:{[index:number]:number[]} = {};
+  let hiveWaves = hive.getWaves();
+  Object.keys(hiveWaves).forEach((turn) => {
+    if(Number(turn) >= game.getTurn()) { //earlier waves have already invaded
+      waves[turn] = hiveWaves[turn].map(saveBee);
+      if(hive.getWaveEntrances()[turn] !== undefined)
+        entrances[turn] = hive.getWaveEntrances()[turn].slice();
+    }
+  });
+
+  let boosts:{[index:string]:number} = {};
+  Object.keys(colony.getBoosts()).forEach((boost) => boosts[boost] = colony.getBoosts()[boost]);
+
+  return {
+    version: SAVE_VERSION,
+    seed: game.getSeed(),
+    randomState: game.getRandom().getState(),
+    turn: game.getTurn(),
+    scenario: game.getScenarioName(),
+    stats: {beesKilled: game.getStats().beesKilled, antsLost: game.getStats().antsLost},
+    colony: {
+      food: colony.getFood(),
+      tunnels: places.length,
+      tunnelLength: places.length > 0 ? places[0].length : 0,
+      terrain: colony.getTerrain(),
+      layout: _.cloneDeep(colony.getLayout()),
+      economy: _.clone(colony.getEconomy()),
+      boosts: boosts,
+      places: places.map((tunnel) => tunnel.map(savePlace)),
+      queenBees: colony.getQueenPlace().getBees().map(saveBee)
+    },
+    hive: {
+      beeArmor: hive.getBeeArmor(),
+      beeDamage: hive.getBeeDamage(),
+      waves: waves,
+      entrances: entrances
+    }
+  };
+}
+
+/**
+ * Rebuilds a game from data produced by saveGame(). Throws an Error if the
+ * data is from an unsupported version of the save format.
+ */
+export function loadGame(saved:SavedGame):AntGame {
+  if(saved === null || typeof saved !== 'object' || saved.version === undefined) {
+    throw new Error('not a saved game');
+  }
+  if(saved.version !== SAVE_VERSION) {
+    throw new Error(`unsupported save version ${saved.version} (expected ${SAVE_VERSION})`);
+  }
+
+  let colony = new AntColony(saved.colony.food, saved.colony.tunnels, saved.colony.tunnelLength, 0, [], saved.colony.terrain);
+  colony.setLayout(saved.colony.layout);
+  colony.setBoosts(saved.colony.boosts);
+  colony.setEconomy(economyOf(saved.colony.economy));
+  let places = colony.getPlaces();
+  saved.colony.places.forEach((tunnel, i) => tunnel.forEach((place, j) => loadPlace(place, places[i][j])));
+  saved.colony.queenBees.forEach((bee) => colony.getQueenPlace().addBee(loadBee(bee)));
+
+  let hive = new Hive(saved.hive.beeArmor, saved.hive.beeDamage);
+  Object.keys(saved.hive.waves).forEach((turn) => {
+    hive.addWaveOf(Number(turn), saved.hive.waves[turn].map(loadBee), saved.hive.entrances[turn]);
+  });
+
+  let game = new AntGame(colony, hive, saved.seed);
+  game.getRandom().setState(saved.randomState);
+  game.setTurn(saved.turn);
+  game.setScenarioName(saved.scenario);
+  game.setStats({beesKilled: saved.stats.beesKilled, antsLost: saved.stats.antsLost});
+  return game;
+}
+
+/**
+ * Writes the game to a JSON file
+ */
+export function saveGameToFile(game:AntGame, file:string) {
+  fs.writeFileSync(file, JSON.stringify(saveGame(game), null, 2));
+}
+
+/**
+ * Reads a game from a JSON file written by saveGameToFile()
+ */
+export function loadGameFromFile(file:string):AntGame {
+  return loadGame(JSON.parse(fs.readFileSync(file, 'utf8')));
+}
@@ -0,0 +1,252 @@
+import {AntColony, AntGame, Hive, BEE_SPECIES} from './game';
+import {economyOf} from './economy';
+import {TERRAINS, getTerrain} from './terrain';
+
+import fs = require('fs');
+import path = require('path');
+
+/**
+ * The folder holding the built-in scenario files
+ */
+export const SCENARIO_FOLDER = path.join(__dirname, '..', 'scenarios');
+
+/**
+ * A level: the shape of the colony and the bees that will attack it
+ */
+export interface Scenario {
+  name?:string;
+  description?:string;
+  food:number;
+  tunnels:number;
+  tunnelLength:number;
+  moatFrequency?:number;
+  water?:string[]; //"row,col" coordinates of water places
+  terrain?:{[coords:string]:string}; //other kinds of ground (mud, high-ground, thorns, nest...) by "row,col" coordinates
+  exits?:{[coords:string]:string[]}; //forks and junctions: where bees go from a place ("queen" for the queen)
+  entrances?:string[];               //where bees come in, if not at the end of every tunnel
+  boosts?:{[index:string]:number};
+  economy?:{refund?:number, income?:number, upkeep?:number, bounty?:number}; //rules left out are off
+  bees: {armor:number, damage:number};
+  waves: {turn:number, bees:number|{[species:string]:number}}[]; //a count of plain bees, or counts by species
+}
+
+
+function isCount(value:any):boolean {
+  return typeof value === 'number' && value >= 0 && Math.floor(value) === value;
+}
+
+/**
+ * Checks that the data is a well-formed Scenario. Returns an error message
+ * naming the path of the first bad field, or undefined if it is valid.
+ */
+export function validateScenario(data:any):string {
+  if(data === null || typeof data !== 'object' || Array.isArray(data)) {
+    return 'scenario must be an object';
+  }
+  for(let field of ['name', 'description']) {
+    if(data[field] !== undefined && typeof data[field] !== 'string') {
+      return `${field} must be a string`;
+    }
+  }
+  for(let field of ['food', 'tunnels', 'tunnelLength']) {
+    if(!isCount(data[field])) {
+      return `${field} must be a whole number of at least 0`;
+    }
+  }
+  if(data.tunnels < 1 || data.tunnelLength < 1) {
+    return `${data.tunnels < 1 ? 'tunnels' : 'tunnelLength'} must be at least 1`;
+  }
+  if(data.moatFrequency !== undefined && !isCount(data.moatFrequency)) {
+    return 'moatFrequency must be a whole number of at least 0';
+  }
+
+  if(data.water !== undefined) {
+    if(!Array.isArray(data.water)) {
+      return 'water must be a list of "row,col" coordinates';
+    }
+    for(let i=0; i<data.water.length; i++) {
+      let coords = typeof data.water[i] === 'string' ? data.water[i].split(',').map(Number) : [];
+      if(coords.length !== 2 || !isCount(coords[0]) || !isCount(coords[1])) {
+        return `water[${i}] must be "row,col" coordinates`;
+      }
+      if(coords[0] >= data.tunnels || coords[1] >= data.tunnelLength) {
+        return `water[${i}] is outside the colony`;
+      }
+    }
+  }
+
+  let isPlace = (coords:any, allowQueen:boolean) => {
+    if(allowQueen && coords === 'queen') { return true; }
+    let parts = typeof coords === 'string' ? coords.split(',').map(Number) : [];
+    return parts.length === 2 && isCount(parts[0]) && isCount(parts[1])
+      && parts[0] < data.tunnels && parts[1] < data.tunnelLength;
+  };
+  if(data.terrain !== undefined) {
+    if(data.terrain === null || typeof data.terrain !== 'object' || Array.isArray(data.terrain)) {
+      return 'terrain must be an object of terrain names by "row,col" coordinates';
+    }
+    for(let coords of Object.keys(data.terrain)) {
+      if(!isPlace(coords, false)) {
+        return `terrain.${coords} is not a place in the colony`;
+      }
+      if(typeof data.terrain[coords] !== 'string' || getTerrain(data.terrain[coords]) === undefined) {
+        return `terrain.${coords} is not a terrain (${TERRAINS.map((terrain) => terrain.name).join(', ')})`;
+      }
+    }
+  }
+  if(data.exits !== undefined) {
+    if(data.exits === null || typeof data.exits !== 'object' || Array.isArray(data.exits)) {
+      return 'exits must be an object of exit lists by "row,col" coordinates';
+    }
+    for(let coords of Object.keys(data.exits)) {
+      if(!isPlace(coords, false)) {
+        return `exits.${coords} is not a place in the colony`;
+      }
+      if(!Array.isArray(data.exits[coords]) || data.exits[coords].length === 0) {
+        return `exits.${coords} must be a non-empty list of places`;
+      }
+      for(let i=0; i<data.exits[coords].length; i++) {
+        if(!isPlace(data.exits[coords][i], true)) {
+          return `exits.${coords}[${i}] is not a place in the colony`;
+        }
+      }
+    }
+  }
+  if(data.entrances !== undefined) {
+    if(!Array.isArray(data.entrances) || data.entrances.length === 0) {
+      return 'entrances must be a non-empty list of places';
+    }
+    for(let i=0; i<data.entrances.length; i++) {
+      if(!isPlace(data.entrances[i], false)) {
+        return `entrances[${i}] is not a place in the colony`;
+      }
+    }
+  }
+
+  if(data.boosts !== undefined) {
+    if(data.boosts === null || typeof data.boosts !== 'object' || Array.isArray(data.boosts)) {
+      return 'boosts must be an object of boost counts';
+    }
+    for(let boost of Object.keys(data.boosts)) {
+      if(!isCount(data.boosts[boost])) {
+        return `boosts.${boost} must be a whole number of at least 0`;
+      }
+    }
+  }
+
+  if(data.economy !== undefined) {
+    if(data.economy === null || typeof data.economy !== 'object' || Array.isArray(data.economy)) {
+      return 'economy must be an object of economy rules';
+    }
+    for(let rule of Object.keys(data.economy)) {
+      if(['refund', 'income', 'upkeep', 'bounty'].indexOf(rule) < 0) {
+        return `economy.${rule} is not an economy rule (refund, income, upkeep, bounty)`;
+      }
+    }
+    if(data.economy.refund !== undefined && !(typeof data.economy.refund === 'number'
+       && data.economy.refund >= 0 && data.economy.refund <= 1)) {
+      return 'economy.refund must be a number from 0 to 1';
+    }
+    for(let rule of ['income', 'upkeep', 'bounty']) {
+      if(data.economy[rule] !== undefined && !isCount(data.economy[rule])) {
+        return `economy.${rule} must be a whole number of at least 0`;
+      }
+    }
+  }
+
+  if(data.bees === null || typeof data.bees !== 'object') {
+    return 'bees must be an object';
+  }
+  if(!isCount(data.bees.armor) || data.bees.armor < 1) {
+    return 'bees.armor must be a whole number of at least 1';
+  }
+  if(!isCount(data.bees.damage)) {
+    return 'bees.damage must be a whole number of at least 0';
+  }
+
+  if(!Array.isArray(data.waves)) {
+    return 'waves must be a list';
+  }
+  for(let i=0; i<data.waves.length; i++) {
+    let wave = data.waves[i];
+    if(wave === null || typeof wave !== 'object') {
+      return `waves[${i}] must be an object`;
+    }
+    if(!isCount(wave.turn)) {
+      return `waves[${i}].turn must be a whole number of at least 0`;
+    }
+    if(wave.bees !== null && typeof wave.bees === 'object' && !Array.isArray(wave.bees)) {
+      for(let species of Object.keys(wave.bees)) {
+        if(BEE_SPECIES.indexOf(species) < 0) {
+          return `waves[${i}].bees.${species} is not a bee species (${BEE_SPECIES.join(', ')})`;
+        }
+        if(!isCount(wave.bees[species])) {
+          return `waves[${i}].bees.${species} must be a whole number of at least 0`;
+        }
+      }
+    }
+    else if(!isCount(wave.bees)) {
+      return `waves[${i}].bees must be a whole number of at least 0, or counts by species`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Builds a new game from a (valid) scenario
+ */
+export function createGame(scenario:Scenario, seed?:number):AntGame {
+  let colony = new AntColony(scenario.food, scenario.tunnels, scenario.tunnelLength,
+                             scenario.moatFrequency || 0, scenario.water || [], scenario.terrain || {});
+  colony.setLayout({exits:scenario.exits, entrances:scenario.entrances});
+  if(scenario.boosts !== undefined) {
+    let boosts:{[index:string]:number} = {};
+    Object.keys(scenario.boosts).forEach((boost) => boosts[boost] = scenario.boosts[boost]);
+    colony.setBoosts(boosts);
+  }
+  colony.setEconomy(economyOf(scenario.economy));
+
+  let hive = new Hive(scenario.bees.armor, scenario.bees.damage);
+  scenario.waves.forEach((wave) => hive.addWave(wave.turn, wave.bees));
+
+  let game = new AntGame(colony, hive, seed);
+  if(scenario.name !== undefined) {
+    game.setScenarioName(scenario.name);
+  }
+  return game;
+}
+
+/**
+ * Reads a scenario from a JSON file, or from the built-in scenario of that
+ * name (e.g. "testing"). Throws an Error if it is missing or invalid.
+ */
+export function loadScenario(fileOrName:string):Scenario {
+  let file = fileOrName;
+  if(!fs.existsSync(file)) {
+    file = path.join(SCENARIO_FOLDER, fileOrName+'.json');
+    if(!fs.existsSync(file)) {
+      throw new Error(`no scenario file or built-in scenario named ${fileOrName}`);
+    }
+  }
+
+  let data:any;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch(e) {
+    throw new Error(`${file} is not valid JSON`);
+  }
+  let error = validateScenario(data);
+  if(error) {
+    throw new Error(`${file}: ${error}`);
+  }
+  return data;
+}
+
+/**
+ * Lists the names of the built-in scenarios
+ */
+export function getBuiltInScenarios():string[] {
+  return fs.readdirSync(SCENARIO_FOLDER)
+    .filter((file) => path.extname(file) === '.json')
+    .map((file) => path.basename(file, '.json'));
+}
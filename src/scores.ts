@@ -0,0 +1,147 @@
+import {AntGame} from './game';
+
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import _ = require('lodash');
+
+/**
+ * Where high scores are kept, unless another file is given
+ */
+export const HIGH_SCORE_FILE = path.join(os.homedir(), '.ants-vs-bees-scores.json');
+
+/**
+ * How many places each leaderboard has
+ */
+export const LEADERBOARD_SIZE = 10;
+
+/**
+ * Points for (or, if negative, against) each thing that counts towards a score
+ */
+export const SCORE_WEIGHTS = {
+  turns: -5,
+  food: 10,
+  beesKilled: 100,
+  antsLost: -40,
+  boostsUnused: 25
+};
+
+/**
+ * A score, with what it was made up of
+ */
+export interface Score {
+  turns:number;
+  food:number;
+  beesKilled:number;
+  antsLost:number;
+  boostsUnused:number;
+  total:number;
+}
+
+export interface HighScore {
+  name:string;
+  score:number;
+  turns:number;
+  seed:number;
+  date:string; //ISO date
+}
+
+/**
+ * The leaderboards, keyed by scenario (each difficulty has its own scenario)
+ */
+export interface HighScoreTable {
+  [scenario:string]:HighScore[];
+}
+
+
+/**
+ * Works out the score for a game, as it stands
+ */
+export function scoreOf(game:AntGame):Score {
+  let boosts = game.getBoostCounts();
+  let score:Score = {
+    turns: game.getTurn(),
+    food: game.getFood(),
+    beesKilled: game.getStats().beesKilled,
+    antsLost: game.getStats().antsLost,
+    boostsUnused: _.sum(Object.keys(boosts).map((boost) => boosts[boost])),
+    total: 0
+  };
+  let total = _.sum(Object.keys(SCORE_WEIGHTS).map((input) => score[input] * SCORE_WEIGHTS[input]));
+  score.total = Math.max(0, total);
+  return score;
+}
+
+/**
+ * Describes a score line by line, for the end of a game
+ */
+export function formatScore(score:Score):string {
+  let rows = [
+    ['Turns taken', score.turns, SCORE_WEIGHTS.turns],
+    ['Food left over', score.food, SCORE_WEIGHTS.food],
+    ['Bees killed', score.beesKilled, SCORE_WEIGHTS.beesKilled],
+    ['Ants lost', score.antsLost, SCORE_WEIGHTS.antsLost],
+    ['Boosts left unused', score.boostsUnused, SCORE_WEIGHTS.boostsUnused]
+  ];
+  return rows.map((row) => `${_.padEnd(String(row[0]), 18)} ${_.padStart(String(row[1]), 4)} x ${_.padStart(String(row[2]), 4)}`)
+    .concat([`${_.padEnd('Score', 18)} ${score.total}`])
+    .join('\n');
+}
+
+/**
+ * Reads the high-score table, which is empty if the file doesn't exist yet.
+ * Throws an Error if the file can't be read.
+ */
+export function loadHighScores(file:string = HIGH_SCORE_FILE):HighScoreTable {
+  if(!fs.existsSync(file)) {
+    return {};
+  }
+  let table:any;
+  try {
+    table = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch(e) {
+    throw new Error(`${file} is not valid JSON`);
+  }
+  if(table === null || typeof table !== 'object' || Array.isArray(table)) {
+    throw new Error(`${file} is not a high-score table`);
+  }
+  return table;
+}
+
+export function saveHighScores(table:HighScoreTable, file:string = HIGH_SCORE_FILE) {
+  fs.writeFileSync(file, JSON.stringify(table, null, 2));
+}
+
+/**
+ * Whether a score would make the top ten for a scenario
+ */
+export function isHighScore(table:HighScoreTable, scenario:string, score:number):boolean {
+  let board = table[scenario] || [];
+  return score > 0 && (board.length < LEADERBOARD_SIZE || score > _.last(board).score);
+}
+
+/**
+ * Adds a score to a scenario's leaderboard, keeping the top ten. Returns
+ * its place (from 1), or undefined if it didn't make it.
+ */
+export function addHighScore(table:HighScoreTable, scenario:string, entry:HighScore):number {
+  let board = (table[scenario] || []).concat([entry]);
+  board = _.sortBy(board, (high:HighScore) => -high.score); //stable, so earlier scores win ties
+  table[scenario] = board.slice(0, LEADERBOARD_SIZE);
+  let place = table[scenario].indexOf(entry);
+  return place >= 0 ? place+1 : undefined;
+}
+
+/**
+ * Formats a scenario's leaderboard as a table
+ */
+export function formatLeaderboard(table:HighScoreTable, scenario:string):string {
+  let board = table[scenario] || [];
+  if(board.length === 0) {
+    return `No high scores for ${scenario} yet.`;
+  }
+  return `High scores for ${scenario}:\n`+board.map((high, i) =>
+    `${_.padStart(String(i+1), 2)}. ${_.padEnd(high.name, 16)} ${_.padStart(String(high.score), 6)}  `+
+    `(${high.turns} turns, seed ${high.seed}, ${high.date.slice(0, 10)})`
+  ).join('\n');
+}
@@ -0,0 +1,203 @@
+import {Insect} from './ants';
+import {AntGame, Place} from './game';
+import {GameEventType} from './events';
+import {stateOf} from './renderers';
+import {Action, performAction} from './strategies';
+
+import http = require('http');
+import crypto = require('crypto');
+import net = require('net');
+
+/**
+ * An event pushed to WebSocket clients, with insects and places replaced
+ * by their names so that it can be sent as JSON
+ */
+export interface EventMessage {
+  type:string;
+  data:any;
+}
+
+const EVENT_TYPES:GameEventType[] = [
+  'AntDeployed', 'AntRemoved', 'AntDrowned', 'BeeStung', 'LeafThrown', 'BugSprayed', 'InsectExpired',
+  'BeeEaten', 'BeeCoughedUp', 'BeeDigested', 'FoodCollected', 'BoostFound', 'BoostApplied',
+  'AntLeveledUp', 'AntUpgraded', 'WaveInvaded', 'TurnEnded', 'CommandPerformed'
+];
+
+//the move each POST route makes
+const ROUTE_ACTIONS:{[route:string]:Action['type']} = {
+  'POST /deploy':'deploy', 'POST /remove':'remove', 'POST /boost':'boost', 'POST /upgrade':'upgrade'
+};
+
+//the field, besides tunnel, that each move needs in the request body
+const ACTION_FIELDS:{[type:string]:string} = {deploy:'antType', boost:'boost', upgrade:'upgrade'};
+
+//the GUID every WebSocket handshake is hashed with (RFC 6455)
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+function toMessageData(value:any):any {
+  if(value instanceof Insect) { return value.toString(); }
+  if(value instanceof Place) { return value.name; }
+  if(Array.isArray(value)) { return value.map(toMessageData); }
+  if(value !== null && typeof value === 'object') {
+    let data:any = {};
+    Object.keys(value).forEach((key) => data[key] = toMessageData(value[key]));
+    return data;
+  }
+  return value;
+}
+
+/**
+ * Wraps a text message in a single unmasked WebSocket frame
+ */
+function frameOf(text:string):Buffer {
+  let payload = Buffer.from(text, 'utf8');
+  let header:Buffer;
+  if(payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  }
+  else if(payload.length < 65536) {
+    header = Buffer.from([0x81, 126, payload.length >> 8, payload.length & 0xff]);
+  }
+  else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeUInt32BE(0, 2);
+    header.writeUInt32BE(payload.length, 6);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Serves a game over HTTP on localhost, for a graphical front end:
+ *
+ *   GET  /state                         the board, food, turn, boosts and hive
+ *   POST /deploy {antType, tunnel}      deploys an ant
+ *   POST /remove {tunnel}               removes an ant
+ *   POST /boost  {boost, tunnel}        gives an ant a boost
+ *   POST /upgrade {tunnel, upgrade}     upgrades an ant
+ *   POST /turn                          ends the turn
+ *
+ * A move answers with {state}, or with status 400 and {error} using the
+ * same messages as the REPL (e.g. "not enough food"), or {error, field}
+ * when the body leaves out a field the move needs. A WebSocket opened on
+ * /events gets {turn, events, state} after every turn.
+ */
+export class GameServer {
+  private server:http.Server;
+  private sockets:net.Socket[] = [];
+  private pending:EventMessage[] = []; //events since the last push, moves included
+
+  constructor(private game:AntGame, private log:(message:string) => void = console.log){
+    EVENT_TYPES.forEach((type) => {
+      game.getEvents().on(type, (e:any) => this.pending.push({type:type, data:toMessageData(e)}));
+    });
+    this.server = http.createServer((request, response) => this.handle(request, response));
+    this.server.on('upgrade', (request:http.IncomingMessage, socket:net.Socket) => this.upgrade(request, socket));
+  }
+
+  listen(port:number, callback?:() => void) {
+    this.server.listen(port, '127.0.0.1', () => {
+      this.log(`Serving the game on http://127.0.0.1:${this.getPort()}`);
+      if(callback) callback();
+    });
+  }
+
+  getPort():number { return this.server.address().port; }
+
+  close(callback?:() => void) {
+    this.sockets.forEach((socket) => socket.destroy());
+    this.sockets = [];
+    this.server.close(callback);
+  }
+
+  private handle(request:http.IncomingMessage, response:http.ServerResponse) {
+    let body = '';
+    request.on('data', (chunk:Buffer) => body += chunk.toString());
+    request.on('end', () => {
+      let params:any;
+      try {
+        params = body.trim() === '' ? {} : JSON.parse(body);
+      } catch(e) {
+        return this.reply(response, 400, {error:'request body is not valid JSON'});
+      }
+
+      if(params === null || typeof params !== 'object' || Array.isArray(params)) {
+        return this.reply(response, 400, {error:'request body must be a JSON object'});
+      }
+
+      let route = request.method+' '+request.url.split('?')[0];
+      try {
+        this.route(route, params, response);
+      } catch(e) {
+        this.log(`Failed to handle ${route}: ${e.message}`);
+        this.reply(response, 500, {error:'internal error'});
+      }
+    });
+  }
+
+  private route(route:string, params:any, response:http.ServerResponse) {
+    if(ROUTE_ACTIONS[route] !== undefined) {
+      let type = ROUTE_ACTIONS[route];
+      let fields = ['tunnel'].concat(ACTION_FIELDS[type] !== undefined ? [ACTION_FIELDS[type]] : []);
+      for(let i=0; i<fields.length; i++) {
+        if(typeof params[fields[i]] !== 'string') {
+          return this.reply(response, 400, {error:`${fields[i]} must be given as a string`, field:fields[i]});
+        }
+      }
+      let action:Action = {type:type, tunnel:params.tunnel,
+                           antType:params.antType, boost:params.boost, upgrade:params.upgrade};
+      let error = performAction(this.game, action);
+      if(error) {
+        return this.reply(response, 400, {error:error});
+      }
+      return this.reply(response, 200, {state:stateOf(this.game)});
+    }
+    switch(route) {
+      case 'GET /state':
+        return this.reply(response, 200, stateOf(this.game));
+      case 'POST /turn':
+        if(this.game.gameIsWon() !== undefined) {
+          return this.reply(response, 400, {error:'the game is over'});
+        }
+        this.game.takeTurn();
+        this.push();
+        return this.reply(response, 200, {state:stateOf(this.game)});
+      default:
+        return this.reply(response, 404, {error:`no such request ${route}`});
+    }
+  }
+
+  private reply(response:http.ServerResponse, status:number, data:any) {
+    response.writeHead(status, {'Content-Type':'application/json'});
+    response.end(JSON.stringify(data));
+  }
+
+  /**
+   * Accepts a WebSocket on /events. Clients only listen, so nothing they
+   * send is read; the socket is dropped when they close it.
+   */
+  private upgrade(request:http.IncomingMessage, socket:net.Socket) {
+    let key = request.headers['sec-websocket-key'];
+    if(request.url !== '/events' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    let accept = crypto.createHash('sha1').update(key+WEBSOCKET_GUID).digest('base64');
+    socket.write('HTTP/1.1 101 Switching Protocols\r\n'+
+                 'Upgrade: websocket\r\n'+
+                 'Connection: Upgrade\r\n'+
+                 `Sec-WebSocket-Accept: ${accept}\r\n\r\n`);
+    this.sockets.push(socket);
+    let drop = () => this.sockets = this.sockets.filter((s) => s !== socket);
+    socket.on('data', (data:Buffer) => { if((data[0] & 0x0f) === 0x8) { socket.end(); } }); //a close frame
+    socket.on('close', drop);
+    socket.on('error', drop);
+  }
+
+  private push() {
+    let frame = frameOf(JSON.stringify({turn:this.game.getTurn(), events:this.pending, state:stateOf(this.game)}));
+    this.sockets.forEach((socket) => socket.write(frame));
+    this.pending = [];
+  }
+}
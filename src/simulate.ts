@@ -0,0 +1,128 @@
+import {Ant} from './ants';
+import {AntGame} from './game';
+import {Scenario, createGame} from './scenario';
+import {Strategy, performAction} from './strategies';
+
+import fs = require('fs');
+import _ = require('lodash');
+
+/**
+ * How a single simulated game went
+ */
+export interface GameResult {
+  seed:number;
+  won:boolean|undefined; //undefined if it ran out of turns
+  turns:number;
+  food:number[];         //food at the start of each turn
+  antsLost:{[antType:string]:number};
+}
+
+/**
+ * The results of a batch of simulated games
+ */
+export interface SimulationReport {
+  scenario:string;
+  strategy:string;
+  games:number;
+  wins:number;
+  losses:number;
+  unfinished:number;
+  winRate:number;
+  averageTurns:number;
+  foodCurve:number[];    //average food at the start of each turn, over games still running
+  antsLost:{[antType:string]:number};
+  results:GameResult[];
+}
+
+export interface SimulationOptions {
+  games:number;
+  firstSeed:number; //games use the seeds firstSeed, firstSeed+1, ...
+  maxTurns:number;
+}
+
+
+/**
+ * Plays one game to the end (or to maxTurns) without any output
+ */
+export function simulateGame(game:AntGame, strategy:Strategy, maxTurns:number):GameResult {
+  let result:GameResult = {seed:game.getSeed(), won:undefined, turns:0, food:[], antsLost:{}};
+
+  let loseAnt = (ant:Ant) => result.antsLost[ant.name] = (result.antsLost[ant.name] || 0) + 1;
+  game.getEvents()
+    .on('InsectExpired', (e) => { if(e.insect instanceof Ant) loseAnt(e.insect); })
+    .on('AntDrowned', (e) => loseAnt(e.ant));
+
+  while(result.won === undefined && game.getTurn() < maxTurns) {
+    strategy.decide(game).forEach((action) => performAction(game, action));
+    result.food.push(game.getFood());
+    game.takeTurn();
+    result.won = game.gameIsWon();
+  }
+  result.turns = game.getTurn();
+  return result;
+}
+
+/**
+ * Plays a batch of games of a scenario with a strategy, over a range of seeds
+ */
+export function simulate(scenario:Scenario, strategy:Strategy, options:SimulationOptions):SimulationReport {
+  let results:GameResult[] = [];
+  for(let i=0; i<options.games; i++) {
+    results.push(simulateGame(createGame(scenario, options.firstSeed+i), strategy, options.maxTurns));
+  }
+
+  let foodCurve:number[] = [];
+  for(let turn=0; turn < _.max(results.map((result) => result.food.length)); turn++) {
+    let running = results.filter((result) => result.food.length > turn);
+    foodCurve.push(_.round(_.meanBy(running, (result) => result.food[turn]), 2));
+  }
+
+  let antsLost:{[antType:string]:number} = {};
+  results.forEach((result) => Object.keys(result.antsLost).forEach((antType) => {
+    antsLost[antType] = (antsLost[antType] || 0) + result.antsLost[antType];
+  }));
+
+  let wins = results.filter((result) => result.won === true).length;
+  let losses = results.filter((result) => result.won === false).length;
+  return {
+    scenario: scenario.name,
+    strategy: strategy.name,
+    games: results.length,
+    wins: wins,
+    losses: losses,
+    unfinished: results.length - wins - losses,
+    winRate: results.length > 0 ? _.round(wins / results.length, 3) : 0,
+    averageTurns: results.length > 0 ? _.round(_.meanBy(results, (result) => result.turns), 2) : 0,
+    foodCurve: foodCurve,
+    antsLost: antsLost,
+    results: results
+  };
+}
+
+/**
+ * Formats the report as a table for the console
+ */
+export function formatReport(report:SimulationReport):string {
+  let rows:string[][] = [
+    ['Scenario', report.scenario || ''],
+    ['Strategy', report.strategy],
+    ['Games', String(report.games)],
+    ['Wins / losses / unfinished', `${report.wins} / ${report.losses} / ${report.unfinished}`],
+    ['Win rate', `${_.round(report.winRate*100, 1)}%`],
+    ['Average turns survived', String(report.averageTurns)],
+    ['Food curve (by turn)', report.foodCurve.slice(0, 20).join(' ')+(report.foodCurve.length > 20 ? ' ...' : '')]
+  ];
+  Object.keys(report.antsLost).forEach((antType) => {
+    rows.push([`${antType} ants lost`, String(report.antsLost[antType])]);
+  });
+
+  let width = _.max(rows.map((row) => row[0].length));
+  return rows.map((row) => _.padEnd(row[0], width)+' | '+row[1]).join('\n');
+}
+
+/**
+ * Writes the report to a JSON file
+ */
+export function saveReport(report:SimulationReport, file:string) {
+  fs.writeFileSync(file, JSON.stringify(report, null, 2));
+}
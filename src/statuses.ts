@@ -0,0 +1,39 @@
+/**
+ * A kind of lasting effect an insect can be under
+ */
+export interface Status {
+  name:string;
+  description:string;
+  turns:number;         //how long it lasts when given
+  stacks:boolean;       //whether giving it again adds to the turns left, rather than starting them over
+  poison?:number;       //damage taken at the end of each turn
+  stuck?:boolean;       //can't move
+  slow?:boolean;        //only moves every other turn
+  cold?:boolean;        //can't sting
+  armorBreak?:number;   //extra damage taken from every hit
+}
+
+/**
+ * A status an insect is under, with the turns it has left
+ */
+export interface ActiveStatus {
+  status:Status;
+  turns:number;
+}
+
+export const STATUSES:Status[] = [
+  {name:'stuck', description:'Can\'t move.', turns:1, stacks:false, stuck:true},
+  {name:'cold', description:'Can\'t sting.', turns:1, stacks:false, cold:true},
+  {name:'mired', description:'Stuck in mud.', turns:1, stacks:false, stuck:true},
+  {name:'stunned', description:'Can\'t move or sting.', turns:1, stacks:false, stuck:true, cold:true},
+  {name:'slow', description:'Moves only every other turn.', turns:4, stacks:false, slow:true},
+  {name:'poisoned', description:'Takes 1 damage at the end of each turn.', turns:3, stacks:true, poison:1},
+  {name:'armor-broken', description:'Takes 1 more damage from every hit.', turns:3, stacks:false, armorBreak:1}
+];
+
+/**
+ * Finds the status with the given name (case-insensitive)
+ */
+export function getStatus(name:string):Status {
+  return STATUSES.filter((status) => status.name.toLowerCase() === name.toLowerCase())[0];
+}
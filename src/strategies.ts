@@ -0,0 +1,236 @@
+import {AntGame, Place} from './game';
+import {getAntType} from './ants';
+
+import _ = require('lodash');
+
+/**
+ * Something a player can do during their turn, before ending it
+ */
+export interface Action {
+  type:'deploy'|'remove'|'boost'|'upgrade';
+  tunnel:string;   //"row,col" coordinates
+  antType?:string; //for deploy
+  boost?:string;   //for boost
+  upgrade?:string; //for upgrade
+}
+
+/**
+ * A way of playing the game: looks at the board and decides what to do
+ */
+export interface Strategy {
+  name:string;
+  description:string;
+  decide(game:AntGame):Action[];
+}
+
+/**
+ * Performs an action through the same entry points the REPL uses. Returns
+ * an error message if it failed.
+ */
+export function performAction(game:AntGame, action:Action):string {
+  switch(action.type) {
+    case 'deploy':
+      return game.deployAnt(action.antType, action.tunnel);
+    case 'remove':
+      return game.removeAnt(action.tunnel);
+    case 'boost':
+      return game.boostAnt(action.boost, action.tunnel);
+    case 'upgrade':
+      return game.upgradeAnt(action.tunnel, action.upgrade);
+  }
+}
+
+/**
+ * Describes an action as the REPL command that would do it
+ */
+export function describeAction(action:Action):string {
+  switch(action.type) {
+    case 'deploy':
+      return `deploy ${action.antType} ${action.tunnel}`;
+    case 'remove':
+      return `remove ${action.tunnel}`;
+    case 'boost':
+      return `boost ${action.boost} ${action.tunnel}`;
+    case 'upgrade':
+      return `upgrade ${action.tunnel} ${action.upgrade}`;
+  }
+}
+
+
+/**
+ * The dry places in a tunnel with no ant and no bees, nearest the queen
+ * first. For a Grower, only nests count, if the colony has any.
+ */
+function freePlaces(game:AntGame, tunnel:number, antType?:string):string[] {
+  let nestsOnly = antType === 'Grower' && game.getColony().hasNests();
+  let free:string[] = [];
+  game.getPlaces()[tunnel].forEach((place:Place, step:number) => {
+    if(place.getAnt() === undefined && place.getBees().length === 0 && !place.isWater()
+       && (!nestsOnly || place.getTerrain().nest))
+      free.push(tunnel+','+step);
+  });
+  return free;
+}
+
+function countAnts(game:AntGame, antType:string):number {
+  let count = 0;
+  game.getPlaces().forEach((tunnel) => tunnel.forEach((place) => {
+    if(place.getAnt() !== undefined && place.getAnt().name === antType)
+      count++;
+  }));
+  return count;
+}
+
+/**
+ * Does nothing at all; a baseline for comparing strategies
+ */
+export const IdleStrategy:Strategy = {
+  name: 'idle',
+  description: 'Never deploys anything.',
+  decide: (game:AntGame) => []
+};
+
+/**
+ * Puts one Grower at the back of each tunnel, then Throwers behind them
+ */
+export const BasicStrategy:Strategy = {
+  name: 'basic',
+  description: 'A Grower at the back of each tunnel, then Throwers behind it.',
+  decide: (game:AntGame) => {
+    let tunnels = game.getPlaces().length;
+    let growers = countAnts(game, 'Grower');
+    for(let tunnel=0; tunnel<tunnels; tunnel++) {
+      let index = (tunnel + growers) % tunnels;
+      let antType = growers < tunnels && freePlaces(game, index, 'Grower').length > 0 ? 'Grower' : 'Thrower';
+      let free = freePlaces(game, index, antType);
+      if(free.length > 0) {
+        return [{type:'deploy', antType:antType, tunnel:free[0]}];
+      }
+    }
+    return [];
+  }
+};
+
+/**
+ * Keeps track of the food left while a strategy plans several deployments
+ */
+class Budget {
+  constructor(private food:number){}
+
+  buy(antType:string):boolean {
+    let cost = getAntType(antType).foodCost;
+    if(cost > this.food) { return false; }
+    this.food -= cost;
+    return true;
+  }
+}
+
+/**
+ * The number of bees in each tunnel
+ */
+function beesPerTunnel(game:AntGame):number[] {
+  return game.getPlaces().map((tunnel) => _.sumBy(tunnel, (place:Place) => place.getBees().length));
+}
+
+/**
+ * The step of the bee nearest the queen in a tunnel, or the tunnel length if
+ * it has no bees
+ */
+function nearestBeeStep(game:AntGame, tunnel:number):number {
+  let places = game.getPlaces()[tunnel];
+  let step = _.findIndex(places, (place:Place) => place.getBees().length > 0);
+  return step >= 0 ? step : places.length;
+}
+
+/**
+ * Throwers as far forward as they can go in the tunnel with the most bees,
+ * boosted whenever there's a boost to spare
+ */
+export const GreedyStrategy:Strategy = {
+  name: 'greedy',
+  description: 'Throwers in front of the busiest tunnel.',
+  decide: (game:AntGame) => {
+    let actions:Action[] = [];
+    let budget = new Budget(game.getFood());
+    let bees = beesPerTunnel(game);
+    let busiest = bees.indexOf(_.max(bees));
+    if(bees[busiest] === 0) { //no bees yet: spread out over the tunnels
+      busiest = game.getTurn() % bees.length;
+    }
+
+    let nest = freePlaces(game, busiest, 'Grower')[0];
+    if(countAnts(game, 'Grower') === 0 && nest !== undefined && budget.buy('Grower')) {
+      actions.push({type:'deploy', antType:'Grower', tunnel:nest});
+    }
+
+    let front = freePlaces(game, busiest)
+      .filter((coords) => Number(coords.split(',')[1]) < nearestBeeStep(game, busiest))
+      .filter((coords) => actions.every((action) => action.tunnel !== coords));
+    if(front.length > 0 && budget.buy('Thrower')) {
+      actions.push({type:'deploy', antType:'Thrower', tunnel:front[front.length-1]});
+    }
+
+    game.getPlaces()[busiest].forEach((place:Place, step:number) => {
+      let ant = place.getAnt();
+      let boost = game.getBoostNames().filter((name) => name !== 'BugSpray')[0];
+      if(boost && ant !== undefined && ant.name === 'Thrower' && ant.getBoosts().length === 0
+         && actions.every((action) => action.type !== 'boost')) {
+        actions.push({type:'boost', boost:boost, tunnel:busiest+','+step});
+      }
+    });
+    return actions.filter((action) => action.tunnel !== undefined);
+  }
+};
+
+/**
+ * Growers at the back of every tunnel, Throwers guarding the near side of
+ * each moat, and Guards over those Throwers
+ */
+export const DefensiveStrategy:Strategy = {
+  name: 'defensive',
+  description: 'Growers at the back, guards over throwers near water.',
+  decide: (game:AntGame) => {
+    let actions:Action[] = [];
+    let budget = new Budget(game.getFood());
+    let places = game.getPlaces();
+
+    places.forEach((tunnel, i) => {
+      let back = freePlaces(game, i, 'Grower')[0];
+      if(back !== undefined && (back === i+',0' || game.getColony().hasNests()) && budget.buy('Grower')) {
+        actions.push({type:'deploy', antType:'Grower', tunnel:back});
+      }
+    });
+
+    places.forEach((tunnel, i) => tunnel.forEach((place:Place, step:number) => {
+      let next = tunnel[step+1];
+      if(place.isWater() || next === undefined || !next.isWater()) { return; }
+      if(place.getAnt() === undefined) {
+        if(place.getBees().length === 0 && budget.buy('Thrower'))
+          actions.push({type:'deploy', antType:'Thrower', tunnel:i+','+step});
+      }
+      else if(place.getAnt().name === 'Thrower' && budget.buy('Guard')) {
+        actions.push({type:'deploy', antType:'Guard', tunnel:i+','+step});
+      }
+    }));
+
+    if(actions.length === 0) { //moats all covered: fill in from the back
+      for(let i=0; i<places.length; i++) {
+        let free = freePlaces(game, i);
+        if(free.length > 0 && budget.buy('Thrower')) {
+          actions.push({type:'deploy', antType:'Thrower', tunnel:free[0]});
+          break;
+        }
+      }
+    }
+    return actions;
+  }
+};
+
+export const STRATEGIES:Strategy[] = [GreedyStrategy, DefensiveStrategy, BasicStrategy, IdleStrategy];
+
+/**
+ * Finds the built-in strategy with the given name (case-insensitive)
+ */
+export function getStrategy(name:string):Strategy {
+  return STRATEGIES.filter((strategy) => strategy.name.toLowerCase() === name.toLowerCase())[0];
+}
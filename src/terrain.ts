@@ -0,0 +1,30 @@
+/**
+ * A kind of ground a place in the tunnels can have
+ */
+export interface Terrain {
+  name:string;
+  description:string;
+  glyph:string;       //the ground under the place on the map, 4 characters wide
+  color?:string;      //chalk style for the glyph
+  water?:boolean;     //drowns any ant but a Scuba
+  statuses?:string[]; //statuses given to each bee that comes in
+  thorns?:number;     //damage done to each bee that comes in
+  range?:number;      //extra places a leaf thrown from here can reach
+  nest?:boolean;      //if a colony has any nests, Growers can only be deployed on them
+}
+
+export const TERRAINS:Terrain[] = [
+  {name:'tunnel', description:'Plain tunnel.', glyph:'===='},
+  {name:'water', description:'Drowns any ant but a Scuba.', glyph:'~~~~', color:'bgCyan', water:true},
+  {name:'mud', description:'Bees that come in are stuck for a turn.', glyph:'::::', color:'bgYellow', statuses:['mired']},
+  {name:'high-ground', description:'Leaves thrown from here fly 1 place further.', glyph:'^^^^', color:'bgWhite', range:1},
+  {name:'thorns', description:'Bees that come in take 1 damage.', glyph:'####', color:'bgGreen', thorns:1},
+  {name:'nest', description:'Where Growers are deployed, if the colony has any.', glyph:'oooo', color:'bgMagenta', nest:true}
+];
+
+/**
+ * Finds the terrain with the given name (case-insensitive)
+ */
+export function getTerrain(name:string):Terrain {
+  return TERRAINS.filter((terrain) => terrain.name.toLowerCase() === name.toLowerCase())[0];
+}
@@ -0,0 +1,88 @@
+import {AntGame} from './game';
+import {Scenario} from './scenario';
+
+/**
+ * One thing to read, and usually something to do, in a lesson
+ */
+export interface LessonStep {
+  text:string;
+  done?:(game:AntGame) => boolean; //whether the player has done it; without one, they just carry on with "next"
+}
+
+/**
+ * A short scripted game that teaches one of the rules
+ */
+export interface Lesson {
+  title:string;
+  scenario:Scenario;
+  seed:number;
+  steps:LessonStep[];
+}
+
+/**
+ * The name of the ant at "row,col" coordinates, or undefined if there is none
+ */
+function antAt(game:AntGame, coords:string):string {
+  let ant = game.getColony().getPlace(coords).getAnt();
+  return ant !== undefined ? ant.name : undefined;
+}
+
+export const LESSONS:Lesson[] = [
+  {
+    title: 'Throwers and their range',
+    scenario: {name:'Tutorial', food:8, tunnels:1, tunnelLength:7, bees:{armor:2, damage:1}, waves:[{turn:1, bees:1}]},
+    seed: 1,
+    steps: [
+      {text: 'Bees come in at the right-hand end of each tunnel and walk left towards the queen. '+
+             'Ants cost food to deploy. Deploy a Thrower at the back of the tunnel with "deploy Thrower 0,0".',
+       done: (game) => antAt(game, '0,0') === 'Thrower'},
+      {text: 'A Thrower only reaches 3 places in front of it, so a bee at 0,6 is safe from it. '+
+             'End turns with "turn" until the Thrower hits the bee.',
+       done: (game) => game.getStats().beesKilled > 0 || game.getColony().getAllBees().some((bee) => bee.getArmor() < 2)},
+      {text: 'Keep ending turns until the bee is gone.',
+       done: (game) => game.gameIsWon() === true}
+    ]
+  },
+  {
+    title: 'Water',
+    scenario: {name:'Tutorial', food:12, tunnels:1, tunnelLength:5, water:['0,2'], bees:{armor:2, damage:1},
+               waves:[{turn:3, bees:1}]},
+    seed: 1,
+    steps: [
+      {text: 'The ~~~~ under 0,2 is water. Deploy a Thrower there with "deploy Thrower 0,2", then end the turn.',
+       done: (game) => game.getStats().antsLost > 0},
+      {text: 'It drowned! Only a Scuba can stand in water. Deploy a Scuba at 0,2 instead.',
+       done: (game) => antAt(game, '0,2') === 'Scuba'},
+      {text: 'End turns until the bee is gone.',
+       done: (game) => game.gameIsWon() === true}
+    ]
+  },
+  {
+    title: 'Guards',
+    scenario: {name:'Tutorial', food:12, tunnels:1, tunnelLength:4, bees:{armor:4, damage:1}, waves:[{turn:0, bees:1}]},
+    seed: 1,
+    steps: [
+      {text: 'A Guard doesn\'t take up a place of its own: it stands on top of another ant. '+
+             'Deploy a Thrower at 0,2, then a Guard on the same place.',
+       done: (game) => antAt(game, '0,2') === 'Guard' && game.getColony().getPlace('0,2').getGuardedAnt() !== undefined},
+      {text: 'Bees sting the Guard instead of the ant under it, which keeps on throwing. End turns until the bee is gone.',
+       done: (game) => game.gameIsWon() === true}
+    ]
+  },
+  {
+    title: 'Boosts',
+    scenario: {name:'Tutorial', food:8, tunnels:1, tunnelLength:8, boosts:{FlyingLeaf:1}, bees:{armor:3, damage:1},
+               waves:[{turn:0, bees:1}]},
+    seed: 1,
+    steps: [
+      {text: 'Deploy a Thrower at 0,0. The bee will come in at the far end, out of its range.',
+       done: (game) => antAt(game, '0,0') === 'Thrower'},
+      {text: 'Boosts are found by Growers, and given to Throwers and Scubas. A FlyingLeaf makes the next leaf fly 2 places further. '+
+             'Give it to the Thrower with "boost FlyingLeaf 0,0", then end the turn.',
+       done: (game) => game.getColony().getBoosts()['FlyingLeaf'] === 0 && antAt(game, '0,0') === 'Thrower'
+                       && game.getColony().getPlace('0,0').getAnt().getBoosts().length === 0},
+      {text: 'The boost is gone after one throw. End turns until the bee is gone.',
+       done: (game) => game.gameIsWon() === true}
+    ]
+  }
+];
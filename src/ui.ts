@@ -1,5 +1,16 @@
 import {AntGame, AntColony, Place, Hive} from './game';
-import {Ant, EaterAnt, GuardAnt} from './ants';
+import {Ant, getAntTypes} from './ants';
+import {UPGRADES, LEVEL_THRESHOLDS} from './upgrades';
+import {saveGameToFile, loadGameFromFile} from './save';
+import {createGame} from './scenario';
+import {DIFFICULTIES, getDifficulty, scenarioFor} from './difficulty';
+import {Strategy, STRATEGIES, getStrategy, performAction, describeAction} from './strategies';
+import {VersusGame, BEE_COSTS} from './versus';
+import {scoreOf, formatScore, loadHighScores, saveHighScores, isHighScore, addHighScore, formatLeaderboard} from './scores';
+import {Renderer, RENDERERS, ColorRenderer, getRenderer, statusesOf, rendererFor, saveBoardToFile} from './renderers';
+import {Replay, startReplay, turnsOf, performCommand, hashOf} from './replay';
+import {adviseOn, adviseOnDeploy} from './advisor';
+import {Lesson, LESSONS} from './tutorial';
 
 import vorpal = require('vorpal');
 import chalk = require('chalk');
@@ -10,166 +21,824 @@ import _ = require('lodash');
  */
 const Vorpal = vorpal();
 
-export function showMapOf(game:AntGame){
-  console.log(getMap(game));
+export function showMapOf(game:AntGame, renderer:Renderer = ColorRenderer){
+  console.log(renderer.render(game));
 }
 
-function getMap(game:AntGame) {
-  let places:Place[][] = game.getPlaces();
-  let tunnelLength = places[0].length;
-  let beeIcon = chalk.bgYellow.black('B');
-   
-  let map = '';
-
-  map += chalk.bold('The Colony is under attack!\n');
-  map += `Turn: ${game.getTurn()}, Food: ${game.getFood()}, Boosts available: [${game.getBoostNames()}]\n`;
-  map += '     '+_.range(0,tunnelLength).join('    ')+'      Hive'+'\n';
-   
-  for(let i=0; i<places.length; i++){
-    map += '    '+Array(tunnelLength+1).join('=====');
-    
-    if(i===0){
-      map += '    ';
-      let hiveBeeCount = game.getHiveBeesCount();
-      if(hiveBeeCount > 0){
-        map += beeIcon;
-        map += (hiveBeeCount > 1 ? hiveBeeCount : ' ');
+/**
+ * Prints a message for each event that happens in the game
+ */
+export function logEventsOf(game:AntGame, log:(message:string) => void = console.log){
+  game.getEvents()
+    .on('BeeStung', (e) => log(`${e.bee} stings ${e.ant}!`))
+    .on('LeafThrown', (e) => {
+      log(`${e.ant} throws a leaf at ${e.target}`);
+      if(e.statuses.length > 0){
+        log(`${e.target} is ${e.statuses.join(' and ')}!`);
       }
-    }
-    map += '\n';
+    })
+    .on('BugSprayed', (e) => log(`${e.ant} sprays bug repellant everywhere!`))
+    .on('InsectExpired', (e) => log(`${e.insect.name}(${e.place.name}) ran out of armor and expired`))
+    .on('AntDrowned', (e) => log(`${e.ant.name}(${e.place.name}) drowned`))
+    .on('BeeEaten', (e) => log(`${e.ant} eats ${e.bee}!`))
+    .on('BeeCoughedUp', (e) => log(`${e.ant} coughs up ${e.bee}!`))
+    .on('BeeDigested', (e) => log(`${e.ant} has digested a ${e.bee.name}`))
+    .on('AntRemoved', (e) => {
+      if(e.refund > 0){
+        log(`${e.ant.name} is sold back for ${e.refund} food`);
+      }
+    })
+    .on('FoodCollected', (e) => log(e.amount > 0 ? `The colony gains ${e.amount} food` : `Upkeep costs the colony ${-e.amount} food`))
+    .on('BoostFound', (e) => log(`Found a ${e.boost}!`))
+    .on('BoostApplied', (e) => log(`${e.ant} is given a ${e.boost}`))
+    .on('AntLeveledUp', (e) => log(`${e.ant} reaches level ${e.level}!`))
+    .on('AntUpgraded', (e) => log(`${e.ant} is upgraded with ${e.upgrade}`))
+    .on('WaveInvaded', (e) => log(`${e.bees.length} ${e.bees.length === 1 ? 'bee invades' : 'bees invade'} the colony!`))
+    .on('TurnEnded', (e) => log(''));
+}
 
-    map += i+')  ';
-      
-    for(let j=0; j<places[i].length; j++){ 
-      let place:Place = places[i][j];
+/**
+ * The moves that can be tried out before a preview
+ */
+const PREVIEW_MOVES = ['deploy', 'remove', 'boost', 'upgrade'];
 
-      map += iconFor(place.getAnt());
-      map += ' '; 
+/**
+ * Prints the advisor's warnings, if it has any
+ */
+function logAdvice(cli:any, advice:string[]) {
+  advice.forEach((line) => cli.log(chalk.yellow(`Advisor: ${line}.`)));
+}
 
-      if(place.getBees().length > 0){
-        map += beeIcon;
-        map += (place.getBees().length > 1 ? place.getBees().length : ' ');
-      } else {
-        map += '  ';
+/**
+ * Adds the commands the ant player moves with: show, deploy, ants, remove,
+ * boost, upgrade, upgrades, inspect and preview. The game is looked up on every command, since it can change,
+ * and so is whether the advisor is on.
+ */
+function addAntCommands(cli:any, gameOf:() => AntGame, renderer:Renderer, advising:() => boolean = () => false) {
+  cli
+    .command('show', 'Shows the current game board.')
+    .option('-f, --format <format>', `Draws the board as ${RENDERERS.map((r) => r.name).join(', ')}.`,
+            RENDERERS.map((r) => r.name))
+    .action(function(args, callback){
+      let format = args.options.format !== undefined ? getRenderer(String(args.options.format)) : renderer;
+      if(format === undefined){
+        cli.log(`Invalid show: choose a format of ${RENDERERS.map((r) => r.name).join(', ')}.`);
       }
-      map += ' '; 
-    }
-    map += '\n    ';
-    for(let j=0; j<places[i].length; j++){
-      let place = places[i][j];
-      if(place.isWater()){
-        map += chalk.bgCyan('~~~~')+' ';
-      } else {
-        map += '==== ';
+      else {
+        cli.log(format.render(gameOf()));
       }
-    }
-    map += '\n';
-  }
-  map += '     '+_.range(0,tunnelLength).join('    ')+'\n';
+      callback();
+    });
+
+  cli
+    .command('deploy <antType> <tunnel>', 'Deploys an ant to tunnel (as "row,col" eg. "0,6").')
+    .alias('add', 'd')
+    .autocomplete({data:() => getAntTypes().map((type) => type.name)})
+    .action(function(args, callback) {
+      if(advising()){
+        logAdvice(cli, adviseOnDeploy(gameOf(), String(args.antType), String(args.tunnel)));
+      }
+      let error = gameOf().deployAnt(args.antType, args.tunnel)
+      if(error){
+        cli.log(`Invalid deployment: ${error}.`);
+      }
+      else {
+        cli.log(renderer.render(gameOf()));
+      }
+      callback();
+    });
+
+  cli
+    .command('ants', 'Lists the ants you can deploy, with their cost and armor.')
+    .alias('shop')
+    .action(function(args, callback){
+      let list = getAntTypes().map((type) => {
+        let line = `${chalk[type.color](type.icon)} ${_.padEnd(type.name, 8)} cost: ${type.foodCost}  armor: ${type.armor}  ${type.description}`;
+        return type.foodCost > gameOf().getFood() ? chalk.gray(line+' (not enough food)') : line;
+      });
+      cli.log(`Food: ${gameOf().getFood()}\n`+list.join('\n'));
+      callback();
+    });
+
+  cli
+    .command('remove <tunnel>', 'Removes the ant from the tunnel (as "row,col" eg. "0,6"), selling it back if the scenario gives refunds.')
+    .alias('rm', 'sell')
+    .action(function(args, callback){
+      let error = gameOf().removeAnt(args.tunnel);
+      if(error){
+        cli.log(`Invalid removal: ${error}.`);
+      }
+      else {
+        cli.log(renderer.render(gameOf()));
+      }
+      callback();
+    });
+
+  cli
+    .command('boost <boost> <tunnel>', 'Applies a boost to the ant in a tunnel (as "row,col" eg. "0,6")')
+    .alias('b')
+    .autocomplete({data:() => gameOf().getBoostNames()})
+    .action(function(args, callback){
+      let error = gameOf().boostAnt(args.boost, args.tunnel);
+      if(error){
+        cli.log(`Invalid boost: ${error}`);
+      }
+      callback();
+    });
+
+  cli
+    .command('upgrade <tunnel> <path>', 'Spends food upgrading the ant in a tunnel along a path (see "upgrades").')
+    .alias('up')
+    .autocomplete({data:() => UPGRADES.map((upgrade) => upgrade.name)})
+    .action(function(args, callback){
+      let error = gameOf().upgradeAnt(String(args.tunnel), String(args.path));
+      if(error){
+        cli.log(`Invalid upgrade: ${error}.`);
+      }
+      else {
+        cli.log(renderer.render(gameOf()));
+      }
+      callback();
+    });
+
+  cli
+    .command('upgrades', 'Lists the upgrade paths, with their cost and the ants that can take them.')
+    .action(function(args, callback){
+      let list = UPGRADES.map((upgrade) =>
+        `${_.padEnd(upgrade.name, 10)} cost: ${upgrade.foodCost}  for: ${_.padEnd(upgrade.appliesTo.join(', '), 15)} ${upgrade.description}`);
+      cli.log(`An ant can take one upgrade for each level it reaches, by killing bees.\n`+list.join('\n'));
+      callback();
+    });
+
+  cli
+    .command('inspect <tunnel>', 'Shows the level, experience, upgrades, statuses and boosts of the ants in a tunnel.')
+    .alias('i')
+    .action(function(args, callback){
+      let [row, col] = String(args.tunnel).split(',');
+      let place = (gameOf().getPlaces()[row] || [])[col];
+      if(place === undefined){
+        cli.log('Invalid inspect: illegal location.');
+      }
+      else if(place.getAnt() === undefined){
+        cli.log(`No ant at ${args.tunnel}.`);
+      }
+      else {
+        let ants = [place.getAnt()];
+        if(place.getGuardedAnt() !== place.getAnt()){
+          ants.push(place.getGuardedAnt());
+        }
+        cli.log(ants.map(describeAnt).join('\n'));
+      }
+      callback();
+    });
+
+  cli
+    .command('preview [move...]', 'Shows what ending the turn would do, after trying out some moves (eg. "preview deploy Thrower 0,3; boost FlyingLeaf 0,3"), without making them.')
+    .action(function(args, callback){
+      let game = gameOf();
+      let preview = game.clone();
+      let moves = (args.move || []).join(' ').split(';').map((move) => move.trim()).filter((move) => move !== '');
+      for(let i=0; i<moves.length; i++){
+        let error = PREVIEW_MOVES.indexOf(moves[i].split(' ')[0]) < 0 ?
+          `only ${PREVIEW_MOVES.slice(0, -1).join(', ')} and ${PREVIEW_MOVES[PREVIEW_MOVES.length-1]} moves can be tried out` : performCommand(preview, moves[i]);
+        if(error){
+          cli.log(`Invalid preview: ${moves[i]}: ${error}.`);
+          return callback();
+        }
+      }
+      cli.log(chalk.bold(`Preview of turn ${preview.getTurn()}:`));
+      logEventsOf(preview, (message) => cli.log(message));
+      preview.takeTurn();
+      cli.log(renderer.render(preview));
+      if(preview.gameIsWon() !== game.gameIsWon()){
+        cli.log(preview.gameIsWon() ? chalk.green('The colony would win!') : chalk.red('The queen would fall!'));
+      }
+      cli.log(chalk.gray('Nothing has changed: this was only a preview.'));
+      callback();
+    });
+}
 
-  return map;
+/**
+ * A line about an ant, for the inspect command
+ */
+function describeAnt(ant:Ant):string {
+  let level = ant.getLevel();
+  let next = LEVEL_THRESHOLDS[level];
+  let boosts = ant.getBoosts().map((active) => active.boost.name);
+  return `${ant.name}: armor ${ant.getArmor()}, level ${level} `+
+    `(${ant.getExperience()} ${ant.getExperience() === 1 ? 'bee' : 'bees'} killed`+
+    `${next !== undefined ? `, next level at ${next}` : ''}), `+
+    `upgrades: ${ant.getUpgrades().map((upgrade) => upgrade.name).join(', ') || 'none'}, `+
+    `statuses: ${statusesOf(ant) || 'none'}, `+
+    `boosts: ${boosts.join(', ') || 'none'}`;
 }
 
+/**
+ * Plays a game at the REPL. While it is being recorded to a replay, other
+ * games can't be loaded or started, since the replay couldn't follow them.
+ */
+export function play(game:AntGame, renderer:Renderer = ColorRenderer, advising:boolean = false, recording:boolean = false) {
+  let strategy:Strategy = STRATEGIES[0]; //used by autoplay and hint
 
-function iconFor(ant:Ant){
-  if(ant === undefined){ return ' ' };
-  let icon:string;
-  switch(ant.name){
-    case "Grower":
-      icon = chalk.green('G'); break;
-    case "Thrower":
-      icon = chalk.red('T'); break;
-    case "Eater":
-      if((<EaterAnt>ant).isFull())
-        icon = chalk.yellow.bgMagenta('E');
-      else
-        icon = chalk.magenta('E');
-      break;
-    case "Scuba":
-      icon = chalk.cyan('S'); break;
-    case "Guard":
-      let guarded:Ant = (<GuardAnt>ant).getGuarded();
-      if(guarded){
-        icon = chalk.underline(iconFor(guarded)); break;
-      } else {
-        icon = chalk.underline('x'); break;
-      }
-    default:
-      icon = '?';
+  /**
+   * Switches to playing a different game
+   */
+  function setGame(newGame:AntGame) {
+    game = newGame;
+    logEventsOf(game, (message) => Vorpal.log(message));
+    Vorpal.log(renderer.render(game));
   }
-  return icon;
-}
 
+  logEventsOf(game, (message) => Vorpal.log(message));
 
-export function play(game:AntGame) {
   Vorpal
     .delimiter(chalk.green('AvB $'))
-    .log(getMap(game))
+    .log(renderer.render(game))
     .show();
 
+  addAntCommands(Vorpal, () => game, renderer, () => advising);
+
   Vorpal
-    .command('show', 'Shows the current game board.')
+    .command('advisor [setting]', 'Turns the advisor, which warns about the board after every turn, on or off.')
+    .autocomplete(['on', 'off'])
     .action(function(args, callback){
-      Vorpal.log(getMap(game));
+      if(args.setting !== undefined && ['on', 'off'].indexOf(String(args.setting)) < 0){
+        Vorpal.log('Invalid advisor: choose on or off.');
+      }
+      else {
+        advising = args.setting !== undefined ? args.setting === 'on' : !advising;
+        Vorpal.log(`The advisor is ${advising ? 'on' : 'off'}.`);
+      }
       callback();
     });
 
   Vorpal
-    .command('deploy <antType> <tunnel>', 'Deploys an ant to tunnel (as "row,col" eg. "0,6").')
-    .alias('add', 'd')
-    .autocomplete(['Grower','Thrower','Eater','Scuba','Guard'])
-    .action(function(args, callback) {
-      let error = game.deployAnt(args.antType, args.tunnel)
+    .command('advise', 'Shows the advisor\'s warnings about the board as it stands.')
+    .action(function(args, callback){
+      let advice = adviseOn(game);
+      if(advice.length === 0){
+        Vorpal.log('The advisor has nothing to warn you about.');
+      }
+      logAdvice(Vorpal, advice);
+      callback();
+    });
+
+  Vorpal
+    .command('undo', 'Undoes the last deploy, remove, boost or turn.')
+    .action(function(args, callback){
+      let error = game.undo();
       if(error){
-        Vorpal.log(`Invalid deployment: ${error}.`);
+        Vorpal.log(`Invalid undo: ${error}.`);
       }
       else {
-        Vorpal.log(getMap(game));
+        Vorpal.log(renderer.render(game));
       }
       callback();
     });
 
   Vorpal
-    .command('remove <tunnel>', 'Removes the ant from the tunnel (as "row,col" eg. "0,6").')
-    .alias('rm')
+    .command('redo', 'Redoes the last undone action.')
     .action(function(args, callback){
-      let error = game.removeAnt(args.tunnel);
+      let error = game.redo();
       if(error){
-        Vorpal.log(`Invalid removal: ${error}.`);
+        Vorpal.log(`Invalid redo: ${error}.`);
       }
       else {
-        Vorpal.log(getMap(game));
+        Vorpal.log(renderer.render(game));
       }
       callback();
     });
 
   Vorpal
-    .command('boost <boost> <tunnel>', 'Applies a boost to the ant in a tunnel (as "row,col" eg. "0,6")')
-    .alias('b')
-    .autocomplete({data:() => game.getBoostNames()})
+    .command('rewind <turn>', 'Restores the board as it was at the start of an earlier turn.')
     .action(function(args, callback){
-      let error = game.boostAnt(args.boost, args.tunnel);
+      let error = game.rewind(Number(args.turn));
       if(error){
-        Vorpal.log(`Invalid boost: ${error}`);
+        Vorpal.log(`Invalid rewind: ${error}.`);
+      }
+      else {
+        Vorpal.log(renderer.render(game));
       }
       callback();
-    })
+    });
+
+  Vorpal
+    .command('save <file>', 'Saves the current game to a file.')
+    .action(function(args, callback){
+      try {
+        saveGameToFile(game, args.file);
+        Vorpal.log(`Game saved to ${args.file}.`);
+      } catch(e) {
+        Vorpal.log(`Invalid save: ${e.message}.`);
+      }
+      callback();
+    });
+
+  Vorpal
+    .command('export-board <file>', 'Writes the board to a file, in the format its extension suggests.')
+    .option('-f, --format <format>', `Writes the board as ${RENDERERS.map((r) => r.name).join(', ')}.`,
+            RENDERERS.map((r) => r.name))
+    .action(function(args, callback){
+      let format = args.options.format !== undefined ? getRenderer(String(args.options.format)) : rendererFor(args.file);
+      if(format === undefined){
+        Vorpal.log(`Invalid export-board: choose a format of ${RENDERERS.map((r) => r.name).join(', ')}.`);
+      }
+      else {
+        try {
+          saveBoardToFile(game, args.file, format);
+          Vorpal.log(`Board written to ${args.file}.`);
+        } catch(e) {
+          Vorpal.log(`Invalid export-board: ${e.message}.`);
+        }
+      }
+      callback();
+    });
+
+  Vorpal
+    .command('load <file>', 'Loads a game saved with the save command.')
+    .action(function(args, callback){
+      if(recording){
+        Vorpal.log('Invalid load: a replay is being recorded of this game.');
+        return callback();
+      }
+      try {
+        setGame(loadGameFromFile(args.file));
+      } catch(e) {
+        Vorpal.log(`Invalid load: ${e.message}.`);
+      }
+      callback();
+    });
+
+  Vorpal
+    .command('new-game [difficulty]', 'Starts a new game of the chosen difficulty.')
+    .alias('new')
+    .autocomplete(DIFFICULTIES.map((difficulty) => difficulty.name))
+    .action(function(args, callback){
+      if(recording){
+        Vorpal.log('Invalid new game: a replay is being recorded of this game.');
+        return callback();
+      }
+      let start = (name:string) => {
+        let difficulty = getDifficulty(name);
+        if(difficulty === undefined){
+          Vorpal.log(`Invalid new game: unknown difficulty ${name}.`);
+        }
+        else {
+          setGame(createGame(scenarioFor(difficulty)));
+        }
+        callback();
+      };
+
+      if(args.difficulty){
+        start(args.difficulty);
+      }
+      else {
+        this.prompt({
+          type: 'list',
+          name: 'difficulty',
+          message: 'Choose a difficulty:',
+          choices: DIFFICULTIES.map((difficulty) => difficulty.name),
+          default: 'Normal'
+        }, (answers) => start(answers.difficulty));
+      }
+    });
+
+  Vorpal
+    .command('restart', 'Starts the current game over from the beginning.')
+    .action(function(args, callback){
+      game.restart();
+      Vorpal.log(renderer.render(game));
+      callback();
+    });
+
+  Vorpal
+    .command('strategy [name]', 'Shows or chooses the strategy used by autoplay and hint.')
+    .autocomplete(STRATEGIES.map((s) => s.name))
+    .action(function(args, callback){
+      if(args.name){
+        let chosen = getStrategy(String(args.name));
+        if(chosen === undefined){
+          Vorpal.log(`Invalid strategy: unknown strategy ${args.name}.`);
+        }
+        else {
+          strategy = chosen;
+        }
+      }
+      Vorpal.log(STRATEGIES.map((s) => `${s === strategy ? '*' : ' '} ${_.padEnd(s.name, 10)} ${s.description}`).join('\n'));
+      callback();
+    });
+
+  Vorpal
+    .command('hint', 'Shows what the current strategy would do this turn.')
+    .action(function(args, callback){
+      let actions = strategy.decide(game);
+      if(actions.length === 0){
+        Vorpal.log(`The ${strategy.name} strategy would just end the turn.`);
+      }
+      else {
+        Vorpal.log(`The ${strategy.name} strategy would:\n`+actions.map((action) => '  '+describeAction(action)).join('\n'));
+      }
+      callback();
+    });
+
+  Vorpal
+    .command('autoplay [turns]', 'Lets the current strategy play for a number of turns (default 1).')
+    .action(function(args, callback){
+      let turns = args.turns !== undefined ? Number(args.turns) : 1;
+      for(let i=0; i<turns && game.gameIsWon() === undefined; i++){
+        strategy.decide(game).forEach((action) => {
+          let error = performAction(game, action);
+          Vorpal.log(`${describeAction(action)}${error ? ` (failed: ${error})` : ''}`);
+        });
+        game.takeTurn();
+      }
+      Vorpal.log(renderer.render(game));
+      callback();
+    });
 
   Vorpal
     .command('turn', 'Ends the current turn. Ants and bees will act.')
     .alias('end turn', 'take turn','t')
     .action(function(args, callback){
       game.takeTurn();
-      Vorpal.log(getMap(game));
+      Vorpal.log(renderer.render(game));
       let won:boolean = game.gameIsWon();
+      if(advising && won === undefined){
+        logAdvice(Vorpal, adviseOn(game));
+      }
       if(won === true){
         Vorpal.log(chalk.green('Yaaaay---\nAll bees are vanquished. You win!\n'));
+        Vorpal.log(formatScore(scoreOf(game))+'\n');
+        return recordHighScore(this, () => {
+          Vorpal.log('Type "new-game" or "restart" to play again.');
+          callback();
+        });
       }
       else if(won === false){
         Vorpal.log(chalk.yellow('Bzzzzz---\nThe ant queen has perished! Please try again.\n'));
+        Vorpal.log(formatScore(scoreOf(game))+'\n');
+        Vorpal.log('Type "new-game" or "restart" to play again.');
+      }
+      callback();
+    });
+
+  /**
+   * Asks for a name if the game's score makes the top ten, and adds it to
+   * the high-score table
+   */
+  function recordHighScore(command:any, done:() => void) {
+    let score = scoreOf(game).total;
+    let scenario = game.getScenarioName();
+    let table;
+    try {
+      table = loadHighScores();
+    } catch(e) {
+      Vorpal.log(`Invalid high scores: ${e.message}.`);
+      return done();
+    }
+    if(!isHighScore(table, scenario, score)){
+      return done();
+    }
+    command.prompt({
+      type: 'input',
+      name: 'name',
+      message: 'A new high score! Enter your name:',
+      default: 'Anonymous'
+    }, (answers) => {
+      let name = String(answers.name).trim() || 'Anonymous';
+      addHighScore(table, scenario, {name:name, score:score, turns:game.getTurn(), seed:game.getSeed(),
+                                     date:new Date().toISOString()});
+      try {
+        saveHighScores(table);
+        Vorpal.log(formatLeaderboard(table, scenario));
+      } catch(e) {
+        Vorpal.log(`Invalid high scores: ${e.message}.`);
+      }
+      done();
+    });
+  }
+
+  Vorpal
+    .command('scores [scenario...]', 'Shows the high scores for this scenario, or for another one.')
+    .alias('leaderboard')
+    .action(function(args, callback){
+      let scenario = args.scenario !== undefined ? args.scenario.join(' ') : game.getScenarioName();
+      try {
+        let table = loadHighScores();
+        let name = Object.keys(table).filter((key) => key.toLowerCase() === scenario.toLowerCase())[0];
+        Vorpal.log(formatLeaderboard(table, name || scenario));
+      } catch(e) {
+        Vorpal.log(`Invalid scores: ${e.message}.`);
+      }
+      callback();
+    });
+}
+
+
+/**
+ * The hive player's view: the board, plus their nectar, the bees they have
+ * queued and the entrances they can send bees in at
+ */
+function getHiveView(versus:VersusGame, renderer:Renderer):string {
+  let game = versus.getGame();
+  let entrances = game.getColony().getEntrances().map((place, i) => `${i}: ${place.name}`);
+  let queued = versus.getQueued().map((bee, i) => `${i}: ${bee.species} at entrance ${bee.entrance}`);
+  return renderer.render(game)+'\n'+
+    `Nectar: ${versus.getNectar()}, Turns left: ${versus.getTurnsLeft()}\n`+
+    `Entrances: ${entrances.join(', ')}\n`+
+    `Queued bees: ${queued.length > 0 ? '\n  '+queued.join('\n  ') : 'none'}`;
+}
+
+/**
+ * Plays a hot-seat versus game. The ant player and the hive player take
+ * turns at the terminal, each with their own prompt and commands.
+ */
+export function playVersus(versus:VersusGame, renderer:Renderer = ColorRenderer) {
+  let game = versus.getGame();
+  const Hive = vorpal();
+
+  /**
+   * Says who won, if the game is over
+   */
+  function logWinner(cli:any) {
+    let winner = versus.getWinner();
+    if(winner === 'ants'){
+      cli.log(chalk.green(`Yaaaay---\nThe queen survived ${game.getTurn()} turns. The ants win!\n`));
+    }
+    else if(winner === 'hive'){
+      cli.log(chalk.yellow('Bzzzzz---\nThe ant queen has perished. The hive wins!\n'));
+    }
+  }
+
+  logEventsOf(game, (message) => Vorpal.log(message));
+
+  addAntCommands(Vorpal, () => game, renderer);
+  Vorpal
+    .command('done', 'Ends the ants\' phase, and hands over to the hive player.')
+    .alias('turn', 't')
+    .action(function(args, callback){
+      let error = versus.endAntPhase();
+      if(error){
+        Vorpal.log(`Invalid done: ${error}.`);
+        return callback();
+      }
+      Vorpal.log(chalk.bold('\nHive player\'s phase. Ant player, look away!\n'));
+      Vorpal.hide();
+      Hive.log(getHiveView(versus, renderer)).show();
+      callback();
+    });
+
+  Hive
+    .command('show', 'Shows the board, your nectar and your queued bees.')
+    .action(function(args, callback){
+      Hive.log(getHiveView(versus, renderer));
+      callback();
+    });
+
+  Hive
+    .command('bees', 'Lists the bees you can buy, with their cost in nectar.')
+    .alias('shop')
+    .action(function(args, callback){
+      let list = Object.keys(BEE_COSTS).map((species) => `${_.padEnd(species, 10)} cost: ${BEE_COSTS[species]}`);
+      Hive.log(`Nectar: ${versus.getNectar()}\n`+list.join('\n'));
+      callback();
+    });
+
+  Hive
+    .command('buy <species> <entrance>', 'Buys a bee to send in at an entrance (by number) when you launch.')
+    .autocomplete({data:() => Object.keys(BEE_COSTS)})
+    .action(function(args, callback){
+      let error = versus.buyBee(String(args.species), String(args.entrance));
+      if(error){
+        Hive.log(`Invalid buy: ${error}.`);
       }
       else {
-        callback();
+        Hive.log(`Queued a ${args.species}. Nectar left: ${versus.getNectar()}`);
+      }
+      callback();
+    });
+
+  Hive
+    .command('cancel <queued>', 'Takes back a queued bee (by number), refunding its nectar.')
+    .action(function(args, callback){
+      let error = versus.cancelBee(String(args.queued));
+      if(error){
+        Hive.log(`Invalid cancel: ${error}.`);
+      }
+      else {
+        Hive.log(getHiveView(versus, renderer));
       }
+      callback();
+    });
+
+  Hive
+    .command('launch', 'Sends every queued bee into the colony at the end of this turn.')
+    .action(function(args, callback){
+      let error = versus.launch();
+      if(error){
+        Hive.log(`Invalid launch: ${error}.`);
+      }
+      else {
+        Hive.log('The bees will invade at the end of this turn.');
+      }
+      callback();
     });
+
+  Hive
+    .command('done', 'Ends the hive\'s phase and the turn. Ants and bees will act.')
+    .alias('turn', 't')
+    .action(function(args, callback){
+      let error = versus.endHivePhase();
+      if(error){
+        Hive.log(`Invalid done: ${error}.`);
+        return callback();
+      }
+      Hive.hide();
+      Vorpal.log(chalk.bold('\nAnt player\'s phase.\n'));
+      Vorpal.log(renderer.render(game)).show();
+      logWinner(Vorpal);
+      callback();
+    });
+
+  Vorpal
+    .delimiter(chalk.green('Ants $'))
+    .log(chalk.bold('Ant player\'s phase.\n'))
+    .log(renderer.render(game))
+    .show();
+  Hive.delimiter(chalk.yellow('Hive $'));
+}
+
+
+/**
+ * Plays a replay back turn by turn, drawing the board after each turn:
+ * every `delay` milliseconds if given, or else whenever a key is pressed
+ * (q quits)
+ */
+export function watchReplay(replay:Replay, renderer:Renderer = ColorRenderer, delay?:number) {
+  let game = startReplay(replay);
+  let turns = turnsOf(replay);
+  let next = 0;
+  logEventsOf(game);
+  console.log(renderer.render(game));
+
+  /**
+   * Makes the moves of the next turn, returning false once there are none left
+   */
+  function step():boolean {
+    if(next >= turns.length){ return false; }
+    turns[next++].forEach((command) => {
+      console.log(chalk.bold('> '+command));
+      let error = performCommand(game, command);
+      if(error){
+        console.log(`Invalid ${command.split(' ')[0]}: ${error}.`);
+      }
+    });
+    console.log(renderer.render(game));
+    return next < turns.length;
+  }
+
+  function finish() {
+    if(hashOf(game) === replay.hash){
+      console.log('End of replay.');
+    }
+    else {
+      console.log(chalk.yellow('End of replay, but the game ended differently from how it was recorded.'));
+    }
+  }
+
+  if(delay !== undefined){
+    let timer = setInterval(() => {
+      if(!step()){
+        clearInterval(timer);
+        finish();
+      }
+    }, delay);
+    return;
+  }
+
+  let stdin = process.stdin;
+  console.log('Press any key for the next turn, or q to quit.');
+  if(stdin.isTTY){ stdin.setRawMode(true); }
+  let onKeys = (keys:Buffer|string) => {
+    for(let key of String(keys).split('')){
+      let quit = key === 'q' || key === '\u0003'; //q or ctrl-c
+      if(quit || !step()){
+        stdin.removeListener('data', onKeys);
+        if(stdin.isTTY){ stdin.setRawMode(false); }
+        stdin.pause();
+        return quit ? console.log('Replay stopped.') : finish();
+      }
+    }
+  };
+  stdin.on('data', onKeys);
+  stdin.resume();
+}
+
+
+/**
+ * Walks through the tutorial lessons, each a small scripted game with the
+ * advisor on. The player moves with the usual commands, and each step of a
+ * lesson is checked off once they have done what it asks.
+ */
+export function playTutorial(renderer:Renderer = ColorRenderer, lessons:Lesson[] = LESSONS) {
+  let lessonIndex = 0;
+  let stepIndex = 0;
+  let game:AntGame;
+  let lost = false;     //the lesson's game is lost, so it has to be restarted
+  let finished = false; //every lesson is done
+
+  function startLesson(index:number) {
+    lessonIndex = index;
+    stepIndex = 0;
+    lost = false;
+    game = createGame(lessons[index].scenario, lessons[index].seed);
+    logEventsOf(game, (message) => Vorpal.log(message));
+    Vorpal.log(chalk.bold(`\nLesson ${index+1} of ${lessons.length}: ${lessons[index].title}\n`));
+    Vorpal.log(renderer.render(game));
+    logStep();
+  }
+
+  function logStep() {
+    Vorpal.log(chalk.cyan(lessons[lessonIndex].steps[stepIndex].text));
+  }
+
+  /**
+   * Moves on to the next step, or the next lesson after the last step
+   */
+  function nextStep() {
+    stepIndex++;
+    if(stepIndex < lessons[lessonIndex].steps.length){
+      logStep();
+    }
+    else if(lessonIndex+1 < lessons.length){
+      Vorpal.log(chalk.green('Lesson complete!'));
+      startLesson(lessonIndex+1);
+    }
+    else {
+      Vorpal.log(chalk.green('Tutorial complete! Type "exit" to leave, and start a real game without --tutorial.'));
+      finished = true;
+    }
+  }
+
+  /**
+   * Checks off every step the player has now done
+   */
+  function checkProgress() {
+    if(finished || lost){ return; }
+    if(game.gameIsWon() === false){
+      Vorpal.log(chalk.yellow('The ant queen has perished! Type "restart" to try the lesson again.'));
+      lost = true;
+      return;
+    }
+    let step = lessons[lessonIndex].steps[stepIndex];
+    if(step.done !== undefined && step.done(game)){
+      nextStep();
+      checkProgress();
+    }
+  }
+
+  addAntCommands(Vorpal, () => game, renderer, () => true);
+
+  Vorpal
+    .command('turn', 'Ends the current turn. Ants and bees will act.')
+    .alias('t')
+    .action(function(args, callback){
+      game.takeTurn();
+      Vorpal.log(renderer.render(game));
+      if(game.gameIsWon() === undefined){
+        logAdvice(Vorpal, adviseOn(game));
+      }
+      callback();
+    });
+
+  Vorpal
+    .command('lesson', 'Shows what to do next in this lesson.')
+    .action(function(args, callback){
+      if(!finished){
+        logStep();
+      }
+      callback();
+    });
+
+  Vorpal
+    .command('next', 'Skips ahead to the next step of the lesson.')
+    .action(function(args, callback){
+      if(!finished){
+        nextStep();
+      }
+      callback();
+    });
+
+  Vorpal
+    .command('restart', 'Starts the lesson over.')
+    .action(function(args, callback){
+      startLesson(lessonIndex);
+      callback();
+    });
+
+  Vorpal.on('client_command_executed', () => checkProgress());
+
+  Vorpal.delimiter(chalk.green('Tutorial $')).show();
+  Vorpal.log('Welcome to Ants vs. Some-Bees! Type "lesson" to see what to do, "next" to skip a step, or "help" for every command.');
+  startLesson(0);
 }
@@ -0,0 +1,50 @@
+/**
+ * What an upgrade does to the ant that takes it
+ */
+export interface UpgradeEffect {
+  range?:number;     //extra places a leaf can reach
+  damage?:number;    //extra damage a leaf does
+  armor?:number;     //extra armor, given when the upgrade is bought
+  digestion?:number; //turns taken off digesting a bee
+}
+
+/**
+ * A branch an ant can be upgraded along, by spending food
+ */
+export interface Upgrade {
+  name:string;
+  description:string;
+  appliesTo:string[]; //names of the ant types that can take it
+  foodCost:number;
+  effect:UpgradeEffect;
+}
+
+export const UPGRADES:Upgrade[] = [
+  {name:'range', description:'Leaves fly 1 place further.',
+   appliesTo:['Thrower','Scuba'], foodCost:3, effect:{range:1}},
+  {name:'damage', description:'Leaves do 1 more damage.',
+   appliesTo:['Thrower','Scuba'], foodCost:4, effect:{damage:1}},
+  {name:'digestion', description:'Digests a bee 1 turn faster.',
+   appliesTo:['Eater'], foodCost:3, effect:{digestion:1}},
+  {name:'armor', description:'2 more armor.',
+   appliesTo:['Guard'], foodCost:3, effect:{armor:2}}
+];
+
+/**
+ * The experience (bees killed) an ant needs to reach each level, from level 1
+ */
+export const LEVEL_THRESHOLDS = [0, 2, 5, 9];
+
+/**
+ * The level an ant with the given experience has reached
+ */
+export function levelFor(experience:number):number {
+  return LEVEL_THRESHOLDS.filter((threshold) => experience >= threshold).length;
+}
+
+/**
+ * Finds the upgrade with the given name (case-insensitive)
+ */
+export function getUpgrade(name:string):Upgrade {
+  return UPGRADES.filter((upgrade) => upgrade.name.toLowerCase() === name.toLowerCase())[0];
+}
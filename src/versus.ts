@@ -0,0 +1,141 @@
+import {AntGame, BEE_SPECIES} from './game';
+import {Scenario, createGame} from './scenario';
+
+import _ = require('lodash');
+
+/**
+ * How much nectar each bee species costs the hive player
+ */
+export const BEE_COSTS:{[species:string]:number} = {Bee:2, FastBee:3, ArmoredBee:4, Wasp:4, BossBee:10,
+                                                    Hornet:4, ScoutBee:3, DiggerBee:3, TimidBee:2};
+
+export interface VersusOptions {
+  nectar:number;        //nectar the hive player starts with
+  nectarPerTurn:number; //nectar they gain at the end of every turn
+  turns:number;         //the ants win if the queen survives this many turns
+}
+
+export const DEFAULT_VERSUS_OPTIONS:VersusOptions = {nectar:4, nectarPerTurn:2, turns:20};
+
+/**
+ * A bee the hive player has bought but not launched yet
+ */
+export interface QueuedBee {
+  species:string;
+  entrance:number; //index into the colony's entrances
+}
+
+/**
+ * A hot-seat game where a second player runs the hive. Every turn has an
+ * ant phase, where the ant player moves as usual, and then a hive phase,
+ * where the hive player buys bees with nectar and chooses when to launch
+ * them. Queued bees stay out of the game (and off the board) until launched,
+ * so the ant player can't see them coming.
+ */
+export class VersusGame {
+  private nectar:number;
+  private queued:QueuedBee[] = [];
+  private phase:'ants'|'hive' = 'ants';
+
+  constructor(private game:AntGame, private options:VersusOptions = DEFAULT_VERSUS_OPTIONS){
+    this.nectar = options.nectar;
+  }
+
+  getGame():AntGame { return this.game; }
+  getNectar():number { return this.nectar; }
+  getQueued():QueuedBee[] { return this.queued; }
+  getPhase():'ants'|'hive' { return this.phase; }
+  getTurnsLeft():number { return Math.max(0, this.options.turns - this.game.getTurn()); }
+
+  /**
+   * Who has won: the hive if a bee reached the queen, the ants if she
+   * survived every turn, or undefined while the game is still going
+   */
+  getWinner():'ants'|'hive' {
+    if(this.game.gameIsWon() === false) { return 'hive'; }
+    if(this.getTurnsLeft() === 0) { return 'ants'; }
+    return undefined;
+  }
+
+  /**
+   * Buys a bee to launch later at an entrance (numbered from 0). Returns an
+   * error message if it can't be bought.
+   */
+  buyBee(species:string, entrance:string):string {
+    let name = BEE_SPECIES.filter((s) => s.toLowerCase() === species.toLowerCase())[0];
+    if(name === undefined || BEE_COSTS[name] === undefined) {
+      return 'unknown bee species';
+    }
+    let index = Number(entrance);
+    if(entrance === '' || isNaN(index) || index < 0 || index >= this.game.getColony().getEntrances().length
+       || Math.floor(index) !== index) {
+      return 'illegal entrance';
+    }
+    if(BEE_COSTS[name] > this.nectar) {
+      return 'not enough nectar';
+    }
+    this.nectar -= BEE_COSTS[name];
+    this.queued.push({species:name, entrance:index});
+    return undefined;
+  }
+
+  /**
+   * Takes a queued bee (numbered from 0) back, refunding its nectar
+   */
+  cancelBee(position:string):string {
+    let index = Number(position);
+    if(this.queued[index] === undefined) {
+      return 'no such queued bee';
+    }
+    this.nectar += BEE_COSTS[this.queued[index].species];
+    this.queued.splice(index, 1);
+    return undefined;
+  }
+
+  /**
+   * Sends every queued bee in at the end of this turn
+   */
+  launch():string {
+    if(this.queued.length === 0) {
+      return 'no bees queued';
+    }
+    let hive = this.game.getHive();
+    let bees = this.queued.map((queued) => hive.spawnBee(queued.species));
+    hive.addWaveOf(this.game.getTurn(), bees, this.queued.map((queued) => queued.entrance));
+    this.queued = [];
+    return undefined;
+  }
+
+  /**
+   * Hands over from the ant player to the hive player
+   */
+  endAntPhase():string {
+    if(this.phase !== 'ants') { return 'it is not the ants\' phase'; }
+    if(this.getWinner() !== undefined) { return 'the game is over'; }
+    this.phase = 'hive';
+    return undefined;
+  }
+
+  /**
+   * Ends the turn, so that ants and bees act, then hands back to the ant
+   * player with more nectar for the hive
+   */
+  endHivePhase():string {
+    if(this.phase !== 'hive') { return 'it is not the hive\'s phase'; }
+    if(this.getWinner() !== undefined) { return 'the game is over'; }
+    this.game.takeTurn();
+    this.nectar += this.options.nectarPerTurn;
+    this.phase = 'ants';
+    return undefined;
+  }
+}
+
+/**
+ * Starts a versus game on a scenario's colony. The scenario's own waves
+ * are left out: the hive player decides what attacks.
+ */
+export function createVersusGame(scenario:Scenario, options:VersusOptions = DEFAULT_VERSUS_OPTIONS,
+                                 seed?:number):VersusGame {
+  let colonyOnly:Scenario = _.assign({}, scenario, {waves:[]});
+  return new VersusGame(createGame(colonyOnly, seed), options);
+}